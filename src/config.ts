@@ -19,22 +19,52 @@ export const GLOBALCTX = this;
 
 export const CONFIG = {
   spreadsheetId: null,
+  // Optional sheet overriding the settings below, see ConfigSheet
+  configSheetName: 'Config',
   sourceNamespace: 'source',
   targetNamespace: 'target',
   resultNamespace: 'result',
+  ruleNamespace: 'rule',
   rules: {
+    // Name of the rules sheet(s), '*' matches any characters (e.g. 'Rules*')
     sheetName: 'Rules',
+    // Row of the column headers
     startRow: 1,
+    // Update interval (in hours) for rules leaving it empty
+    defaultUpdateInterval: 0,
+    // Header text of the reserved columns, which may be in any order
     cols: {
-      ruleName: 0,
-      lastUpdate: 1,
-      status: 2,
-      activationFormula: 3,
-      updateInterval: 4,
-      targetAgent: 5,
-      targetAction: 6,
-      targetIdType: 7,
-      targetId: 8,
+      ruleName: 'Rule Name',
+      lastUpdate: 'Last Update',
+      status: 'Status',
+      activationFormula: 'Activation Formula',
+      updateInterval: 'Update Interval',
+      targetAgent: 'Target Agent',
+      targetAction: 'Target Action',
+      targetIdType: 'Target Identifier Type',
+      targetId: 'Target Identifier',
+      enabled: 'Enabled',
+      condition: 'Condition',
     },
+    // Reserved columns which may be left out
+    optionalCols: ['enabled', 'condition'],
+  },
+  limits: {
+    // Stop and continue via trigger before hitting the 6 min Apps Script limit
+    maxExecutionTime: 270 * 1000,
+    // Maximum number of source requests sent concurrently via fetchAll
+    maxParallelRequests: 50,
+  },
+  changeLog: {
+    sheetName: 'Change Log',
+    headers: [
+      'Timestamp',
+      'Rule Name',
+      'Agent',
+      'Resource Name',
+      'Old Status',
+      'New Status',
+      'Evaluation',
+    ],
   },
 };
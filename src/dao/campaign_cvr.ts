@@ -30,14 +30,28 @@
  */
 import { GoogleAdsApiClient } from './google_ads_client';
 import { ServiceAccount } from '../helpers/auth';
+import { ChangeLog } from '../helpers/change-log';
+
+/**
+ * Conversion value rules IFTTA created or changed for a campaign and geo, so
+ * they can be reverted without touching rules created by someone else.
+ */
+interface CreatedCvrs {
+  rules: string[];
+  originalValues: Record<string, number>;
+}
 
 export interface CampaignDao {
   /**
-   * Disable any and all CVRs for the provided list of campaigns.
+   * Disable the CVRs IFTTA created or changed for the provided campaigns.
    *
    * @param {string[]} campaignResourceNames List of campaing resource names
+   * @param {string} geoTargetName Geo of the CVRs to disable
    */
-  disableAllCvrsForCampaigns(campaignResourceNames: string[]): void;
+  disableAllCvrsForCampaigns(
+    campaignResourceNames: string[],
+    geoTargetName: string
+  ): void;
 
   /**
    * Will create or update campaign CVRs for the provided campaigns.
@@ -70,8 +84,13 @@ export class EmptyCampaignDaoImpl implements CampaignDao {
     );
   }
 
-  disableAllCvrsForCampaigns(campaignResourceNames: string[]): void {
-    console.log(`Disabling all CVRs:  campaigns = ${campaignResourceNames}`);
+  disableAllCvrsForCampaigns(
+    campaignResourceNames: string[],
+    geoTargetName: string
+  ): void {
+    console.log(
+      `Disabling all CVRs:  geo = ${geoTargetName}, campaigns = ${campaignResourceNames}`
+    );
   }
 }
 
@@ -112,74 +131,356 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
       this.customerId,
       geoTargetName
     );
-    // TODO(baohle): Refine try/catch block. Currently too long.
-    try {
-      campaignResourceNames.forEach(campaignResourceName => {
-        const existingRuleSet = this.getConversionValueRuleSetForCampaign(
+    campaignResourceNames.forEach(campaignResourceName => {
+      const createdCvrs = this.getCreatedCvrs(
+        campaignResourceName,
+        geoTargetResource
+      );
+
+      try {
+        this.persistCvrForCampaign(
+          campaignResourceName,
+          conversionWeight,
+          geoTargetResource,
+          createdCvrs
+        );
+      } finally {
+        // Track whatever was created, even if a later step failed
+        this.setCreatedCvrs(
+          campaignResourceName,
+          geoTargetResource,
+          createdCvrs
+        );
+      }
+    });
+  }
+
+  /**
+   * Create or update the CVR for a geo of a single campaign.
+   *
+   * @param {string} campaignResourceName
+   * @param {number} conversionWeight
+   * @param {string} geoTargetResource
+   * @param {CreatedCvrs} createdCvrs Updated with the CVRs IFTTA changes
+   */
+  private persistCvrForCampaign(
+    campaignResourceName: string,
+    conversionWeight: number,
+    geoTargetResource: string,
+    createdCvrs: CreatedCvrs
+  ) {
+    const existingRuleSet = this.getConversionValueRuleSetForCampaign(
+      this.customerId,
+      campaignResourceName
+    );
+    if (existingRuleSet && existingRuleSet.length > 0) {
+      const existingRules: string[] =
+        existingRuleSet[0].conversionValueRuleSet.conversionValueRules;
+      let cvrForGeoExists = false;
+      let cvrForGeoResourceName = '';
+      for (const cvrResourceName of existingRules) {
+        const cvrGeoTarget = this.getGeoTargetForConversionValueRule(
           this.customerId,
-          campaignResourceName
+          cvrResourceName
         );
-        if (existingRuleSet && existingRuleSet.length > 0) {
-          const existingRules =
-            existingRuleSet[0].conversionValueRuleSet.conversionValueRules;
-          let cvrForGeoExists = false;
-          let cvrForGeoResourceName = '';
-          for (const cvrResourceName of existingRules) {
-            const cvrGeoTarget = this.getGeoTargetForConversionValueRule(
-              this.customerId,
-              cvrResourceName
-            );
-            if (cvrGeoTarget === geoTargetResource) {
-              cvrForGeoExists = true;
-              cvrForGeoResourceName = cvrResourceName;
-              break;
-            }
-          }
-          if (cvrForGeoExists) {
-            this.updateConversionValueRule(
-              this.customerId,
-              cvrForGeoResourceName,
-              conversionWeight
-            );
-          } else {
-            const newCvr = this.createConversionValueRule(
-              this.customerId,
-              geoTargetResource,
-              conversionWeight
-            );
-            this.updateConversionValueRuleSet(
+        if (cvrGeoTarget === geoTargetResource) {
+          cvrForGeoExists = true;
+          cvrForGeoResourceName = cvrResourceName;
+          break;
+        }
+      }
+      if (cvrForGeoExists) {
+        // Keep the value of rules created by someone else to restore it
+        if (
+          !createdCvrs.rules.includes(cvrForGeoResourceName) &&
+          !(cvrForGeoResourceName in createdCvrs.originalValues)
+        ) {
+          createdCvrs.originalValues[cvrForGeoResourceName] =
+            this.getConversionValueRuleValue(
               this.customerId,
-              existingRuleSet.resourceName,
-              [...existingRules, newCvr]
+              cvrForGeoResourceName
             );
-          }
-        } else {
-          console.log(
-            `Conversion Value Rule Set not found for ${campaignResourceName}`
-          );
-          console.log(`Creating new conversion value rule`);
-          const newCvr = this.createConversionValueRule(
+        }
+        this.updateConversionValueRule(
+          this.customerId,
+          cvrForGeoResourceName,
+          conversionWeight
+        );
+      } else {
+        const newCvr = this.createConversionValueRule(
+          this.customerId,
+          geoTargetResource,
+          conversionWeight
+        );
+        createdCvrs.rules.push(newCvr);
+        this.updateConversionValueRuleSet(
+          this.customerId,
+          existingRuleSet[0].conversionValueRuleSet.resourceName,
+          existingRules,
+          [...existingRules, newCvr]
+        );
+      }
+    } else {
+      console.log(
+        `Conversion Value Rule Set not found for ${campaignResourceName}`
+      );
+      console.log(`Creating new conversion value rule`);
+      const newCvr = this.createConversionValueRule(
+        this.customerId,
+        geoTargetResource,
+        conversionWeight
+      );
+      createdCvrs.rules.push(newCvr);
+      console.log(`Creating CVR Set for campaign: ${campaignResourceName}.`);
+      this.setCreatedRuleSet(
+        campaignResourceName,
+        this.createConversionValueRuleSet(
+          this.customerId,
+          campaignResourceName,
+          [newCvr]
+        )
+      );
+    }
+  }
+
+  /**
+   * Removes the CVRs IFTTA created for a geo of the campaigns and restores
+   * the values of CVRs created by someone else. CVR sets IFTTA created are
+   * removed once they no longer contain any CVRs.
+   *
+   * @param {string[]} campaignResourceNames
+   * @param {string} geoTargetName
+   * @throws {Error} If any of the CVRs could not be reverted
+   */
+  disableAllCvrsForCampaigns(
+    campaignResourceNames: string[],
+    geoTargetName: string
+  ): void {
+    console.log(
+      `Disabling all CVRs:  geo = ${geoTargetName}, campaigns = ${campaignResourceNames}`
+    );
+    const geoTargetResource = this.getGeoTargetByName(
+      this.customerId,
+      geoTargetName
+    );
+
+    for (const campaignResourceName of campaignResourceNames) {
+      const createdCvrs = this.getCreatedCvrs(
+        campaignResourceName,
+        geoTargetResource
+      );
+      const ruleSet = this.getConversionValueRuleSetForCampaign(
+        this.customerId,
+        campaignResourceName
+      )?.[0]?.conversionValueRuleSet;
+
+      if (ruleSet) {
+        const rules: string[] = ruleSet.conversionValueRules ?? [];
+        const remainingRules = rules.filter(
+          rule => !createdCvrs.rules.includes(rule)
+        );
+
+        if (
+          ruleSet.resourceName ===
+            this.getCreatedRuleSet(campaignResourceName) &&
+          remainingRules.length === 0
+        ) {
+          this.removeConversionValueRuleSet(
             this.customerId,
-            geoTargetResource,
-            conversionWeight
-          );
-          console.log(
-            `Creating CVR Set for campaign: ${campaignResourceName}.`
+            ruleSet.resourceName,
+            rules
           );
-          this.createConversionValueRuleSet(
+          this.setCreatedRuleSet(campaignResourceName, undefined);
+        } else if (remainingRules.length < rules.length) {
+          this.updateConversionValueRuleSet(
             this.customerId,
-            campaignResourceName,
-            [newCvr]
+            ruleSet.resourceName,
+            rules,
+            remainingRules
           );
         }
+      }
+
+      for (const rule of createdCvrs.rules) {
+        this.removeConversionValueRule(this.customerId, rule);
+      }
+
+      for (const [rule, value] of Object.entries(createdCvrs.originalValues)) {
+        this.updateConversionValueRule(this.customerId, rule, value);
+      }
+
+      this.setCreatedCvrs(campaignResourceName, geoTargetResource, {
+        rules: [],
+        originalValues: {},
       });
-    } catch (error: any) {
-      console.error('Error: ', error.stack);
     }
   }
 
-  disableAllCvrsForCampaigns(campaignResourceNames: string[]): void {
-    console.log(`Disabling all CVRs:  campaigns = ${campaignResourceNames}`);
+  /**
+   * Get the CVRs IFTTA created or changed for a geo of a campaign.
+   *
+   * @param {string} campaignResourceName
+   * @param {string} geoTargetResource
+   * @returns {CreatedCvrs}
+   */
+  private getCreatedCvrs(
+    campaignResourceName: string,
+    geoTargetResource: string
+  ): CreatedCvrs {
+    const createdCvrs = PropertiesService.getScriptProperties().getProperty(
+      `cvr:${campaignResourceName}:${geoTargetResource}`
+    );
+
+    return createdCvrs
+      ? JSON.parse(createdCvrs)
+      : { rules: [], originalValues: {} };
+  }
+
+  /**
+   * Store the CVRs IFTTA created or changed for a geo of a campaign.
+   * Nothing is kept once there is nothing to revert.
+   *
+   * @param {string} campaignResourceName
+   * @param {string} geoTargetResource
+   * @param {CreatedCvrs} createdCvrs
+   */
+  private setCreatedCvrs(
+    campaignResourceName: string,
+    geoTargetResource: string,
+    createdCvrs: CreatedCvrs
+  ) {
+    const key = `cvr:${campaignResourceName}:${geoTargetResource}`;
+
+    if (
+      createdCvrs.rules.length === 0 &&
+      Object.keys(createdCvrs.originalValues).length === 0
+    ) {
+      PropertiesService.getScriptProperties().deleteProperty(key);
+      return;
+    }
+
+    PropertiesService.getScriptProperties().setProperty(
+      key,
+      JSON.stringify(createdCvrs)
+    );
+  }
+
+  /**
+   * Get the CVR set IFTTA created for a campaign, shared by all its geos.
+   *
+   * @param {string} campaignResourceName
+   * @returns {string|null}
+   */
+  private getCreatedRuleSet(campaignResourceName: string) {
+    return PropertiesService.getScriptProperties().getProperty(
+      `cvrSet:${campaignResourceName}`
+    );
+  }
+
+  /**
+   * Store (or forget) the CVR set IFTTA created for a campaign.
+   *
+   * @param {string} campaignResourceName
+   * @param {string=} ruleSetResourceName
+   */
+  private setCreatedRuleSet(
+    campaignResourceName: string,
+    ruleSetResourceName?: string
+  ) {
+    if (ruleSetResourceName) {
+      PropertiesService.getScriptProperties().setProperty(
+        `cvrSet:${campaignResourceName}`,
+        ruleSetResourceName
+      );
+    } else {
+      PropertiesService.getScriptProperties().deleteProperty(
+        `cvrSet:${campaignResourceName}`
+      );
+    }
+  }
+
+  /**
+   * Removes a ConversionValueRule.
+   *
+   * @param {string} customerId - The customer ID.
+   * @param {string} resourceName - The resource name of the ConversionValueRule to remove.
+   */
+  private removeConversionValueRule(customerId: string, resourceName: string) {
+    const oldValue = this.getConversionValueRuleValue(customerId, resourceName);
+    const payload = {
+      operations: [{ remove: resourceName }],
+    };
+
+    const path = `customers/${customerId}/conversionValueRules:mutate`;
+    this.apiClient.makeApiCall(path, 'POST', payload);
+
+    console.log(`Removed CVR:  ${resourceName}`);
+    ChangeLog.getInstance().record(
+      resourceName,
+      `MULTIPLY ${oldValue}`,
+      'REMOVED'
+    );
+  }
+
+  /**
+   * Removes a ConversionValueRuleSet.
+   *
+   * @param {string} customerId - The customer ID.
+   * @param {string} resourceName - The resource name of the ConversionValueRuleSet to remove.
+   * @param {string[]} conversionValueRuleResourceNames - The ConversionValueRules the set contains.
+   */
+  private removeConversionValueRuleSet(
+    customerId: string,
+    resourceName: string,
+    conversionValueRuleResourceNames: string[]
+  ) {
+    const payload = {
+      operations: [{ remove: resourceName }],
+    };
+
+    const path = `customers/${customerId}/conversionValueRuleSets:mutate`;
+    this.apiClient.makeApiCall(path, 'POST', payload);
+
+    console.log(`Removed CVR set:  ${resourceName}`);
+    ChangeLog.getInstance().record(
+      resourceName,
+      `${conversionValueRuleResourceNames}`,
+      'REMOVED'
+    );
+  }
+
+  /**
+   * Retrieves the value of a ConversionValueRule.
+   *
+   * @param {string} customerId - The customer ID.
+   * @param {string} cvrResourceName - The resource name of the ConversionValueRule.
+   * @returns {number} - The adjustment factor.
+   */
+  private getConversionValueRuleValue(
+    customerId: string,
+    cvrResourceName: string
+  ): number {
+    const query = `
+      SELECT
+        conversion_value_rule.action.value
+      FROM
+        conversion_value_rule
+      WHERE
+        conversion_value_rule.resource_name = '${cvrResourceName}'
+    `;
+
+    const payload = {
+      query,
+    };
+
+    // Not cached, as the value may have been updated in the meantime
+    const path = `customers/${customerId}/googleAds:search`;
+    const res = this.apiClient.makeApiCall(path, 'POST', payload);
+
+    if (!(res.results && res.results.length)) {
+      throw new Error(`ConversionValueRule ${cvrResourceName} not found`);
+    }
+    return res.results[0].conversionValueRule.action.value;
   }
 
   /**
@@ -249,6 +550,11 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
     const createdRuleResourceName = res.results[0]?.resourceName;
 
     console.log(`Created new CVR:  ${createdRuleResourceName}`);
+    ChangeLog.getInstance().record(
+      createdRuleResourceName,
+      '',
+      `MULTIPLY ${value}`
+    );
     return createdRuleResourceName;
   }
 
@@ -265,6 +571,7 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
     resourceName: string,
     value: number
   ): string {
+    const oldValue = this.getConversionValueRuleValue(customerId, resourceName);
     const payload = {
       operations: [
         {
@@ -285,6 +592,11 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
     const updatedCvrResourceName = res.results[0]?.resourceName;
 
     console.log(`Updated CVR:  ${updatedCvrResourceName}`);
+    ChangeLog.getInstance().record(
+      updatedCvrResourceName,
+      `MULTIPLY ${oldValue}`,
+      `MULTIPLY ${value}`
+    );
     return updatedCvrResourceName;
   }
 
@@ -353,11 +665,16 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
       ],
     };
     const path = `customers/${customerId}/conversionValueRuleSets:mutate`;
-    const res = this.apiClient.makeApiCall(path, 'POST', payload, true);
+    const res = this.apiClient.makeApiCall(path, 'POST', payload);
     if (res.results && res.results.length > 0) {
       console.log(
         `Created conversion value rule set: ${res.results[0].resourceName}`
       );
+      ChangeLog.getInstance().record(
+        res.results[0].resourceName,
+        '',
+        `${campaignResourceName}: ${conversionValueRuleResourceNames}`
+      );
       return res.results[0].resourceName;
     } else {
       throw new Error('Failed to create ConversionValueRuleSet.');
@@ -369,12 +686,14 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
    *
    * @param {string} customerId - The customer ID.
    * @param {string} ruleSetResourceName - The resource name of the ConversionValueRuleSet to update.
+   * @param {string[]} oldConversionValueRuleResourceNames - The ConversionValueRules the set contains before the update.
    * @param {string} newConversionValueRuleResourceNames - An array of resource names of new ConversionValueRules to add or replace existing ones.
    * @returns {string} - The resource name of the updated ConversionValueRuleSet.
    */
   private updateConversionValueRuleSet(
     customerId: string,
     ruleSetResourceName: string,
+    oldConversionValueRuleResourceNames: string[],
     newConversionValueRuleResourceNames: string[]
   ): string {
     // Construct the ConversionValueRuleSet operation payload.
@@ -392,9 +711,14 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
 
     const path = `customers/${customerId}/conversionValueRuleSets:mutate`;
     const res = this.apiClient.makeApiCall(path, 'POST', payload);
-    const updatedCvrSetResourceName = res.results?.resourceName;
+    const updatedCvrSetResourceName = res.results[0]?.resourceName;
 
     console.log(`Updated CVR set: ${updatedCvrSetResourceName}`);
+    ChangeLog.getInstance().record(
+      ruleSetResourceName,
+      `${oldConversionValueRuleResourceNames}`,
+      `${newConversionValueRuleResourceNames}`
+    );
     return updatedCvrSetResourceName;
   }
 
@@ -418,6 +742,7 @@ export class GoogleAdsApiCampaignDaoImpl implements CampaignDao {
         conversion_value_rule_set
       WHERE
         conversion_value_rule_set.campaign = '${campaignResourceName}'
+        AND conversion_value_rule_set.status != 'REMOVED'
     `;
     const payload = {
       query,
@@ -30,6 +30,8 @@
  */
 import { Auth, ServiceAccount } from '../helpers/auth';
 
+export const GOOGLE_ADS_SCOPE = 'https://www.googleapis.com/auth/adwords';
+
 /**
  * A client for interacting with the Google Ads API.
  *
@@ -59,7 +61,7 @@ export class GoogleAdsApiClient {
     this.baseUrl = 'https://googleads.googleapis.com/v18';
 
     const auth = new Auth(serviceAccount ?? undefined);
-    this.authToken = auth.getAuthToken();
+    this.authToken = auth.getAuthToken([GOOGLE_ADS_SCOPE]);
   }
 
   /**
@@ -14,6 +14,21 @@
  * limitations under the License.
  */
 
+import { CONFIG } from '../config';
+
+export interface ApiRequest {
+  url: string;
+  headers?: GoogleAppsScript.URL_Fetch.HttpHeaders;
+  queryParams?: Record<string, string>;
+  body?: Object;
+  method?: string;
+  contentType?: string;
+  cacheTtl?: number;
+}
+
+// Maximum expiration time supported by CacheService, in seconds.
+export const MAX_CACHE_TTL = 21600;
+
 export class ApiHelper {
   private cache: Record<string, Object> = {};
 
@@ -27,6 +42,7 @@ export class ApiHelper {
    * @param {string} method
    * @param {string} contentType
    * @param {boolean} forceCache
+   * @param {number} cacheTtl Seconds to cache the result across executions
    * @returns {Object}
    */
   callApi(
@@ -36,10 +52,200 @@ export class ApiHelper {
     body?: Object,
     method = 'get',
     contentType = 'application/json',
-    forceCache = false
+    forceCache = false,
+    cacheTtl = 0
   ) {
-    if (queryParams) {
-      url = `${url}${this.objectToUrlQuery(url, queryParams)}`;
+    const request = this.buildRequest({
+      url,
+      headers,
+      queryParams,
+      body,
+      method,
+      contentType,
+    });
+
+    if (request.cacheKey in this.cache && this.cache[request.cacheKey]) {
+      console.log(
+        'Returning cached result',
+        JSON.stringify(this.cache[request.cacheKey])
+      );
+      return this.cache[request.cacheKey];
+    }
+
+    if (cacheTtl > 0) {
+      const cached = this.getPersistentCache(request.cacheKey);
+
+      if (cached) {
+        console.log('Returning result cached across executions');
+        this.cache[request.cacheKey] = cached;
+        return cached;
+      }
+    }
+
+    const resRaw = UrlFetchApp.fetch(request.url, request.params);
+
+    if (200 !== resRaw.getResponseCode() && 204 !== resRaw.getResponseCode()) {
+      Logger.log('HTTP code: ' + resRaw.getResponseCode());
+      Logger.log('API error: ' + resRaw.getContentText());
+      Logger.log('URL: ' + request.url);
+      Logger.log('Parameters: ' + JSON.stringify(request.params));
+      throw new Error(resRaw.getContentText());
+    }
+
+    const res = resRaw.getContentText()
+      ? JSON.parse(resRaw.getContentText())
+      : {};
+
+    // Only cache GET and forced cache requests
+    if (method.toLowerCase() === 'get' || forceCache) {
+      this.cache[request.cacheKey] = res;
+    }
+
+    if (cacheTtl > 0) {
+      this.putPersistentCache(
+        request.cacheKey,
+        resRaw.getContentText(),
+        cacheTtl
+      );
+    }
+
+    return res;
+  }
+
+  /**
+   * Fetch all given requests concurrently and cache their results, so that
+   * subsequent callApi() calls for the same requests are served from cache.
+   * Duplicate and already cached requests are only fetched once.
+   * Failed requests are not cached, leaving callApi() to retry and report them.
+   *
+   * @param {ApiRequest[]} requests
+   */
+  prefetch(requests: ApiRequest[]) {
+    const pending: Record<string, GoogleAppsScript.URL_Fetch.URLFetchRequest> =
+      {};
+    const cacheTtls: Record<string, number> = {};
+
+    for (const request of requests) {
+      const { url, params, cacheKey } = this.buildRequest(request);
+
+      if (cacheKey in this.cache || cacheKey in pending) continue;
+
+      const cacheTtl = request.cacheTtl ?? 0;
+      const cached = cacheTtl > 0 && this.getPersistentCache(cacheKey);
+
+      if (cached) {
+        this.cache[cacheKey] = cached;
+      } else {
+        pending[cacheKey] = { url, ...params };
+        cacheTtls[cacheKey] = cacheTtl;
+      }
+    }
+
+    const cacheKeys = Object.keys(pending);
+
+    for (
+      let offset = 0;
+      offset < cacheKeys.length;
+      offset += CONFIG.limits.maxParallelRequests
+    ) {
+      const keys = cacheKeys.slice(
+        offset,
+        offset + CONFIG.limits.maxParallelRequests
+      );
+      const responses = UrlFetchApp.fetchAll(keys.map(key => pending[key]));
+
+      responses.forEach((resRaw, index) => {
+        if (
+          200 !== resRaw.getResponseCode() &&
+          204 !== resRaw.getResponseCode()
+        ) {
+          return;
+        }
+
+        try {
+          this.cache[keys[index]] = resRaw.getContentText()
+            ? JSON.parse(resRaw.getContentText())
+            : {};
+
+          if (cacheTtls[keys[index]] > 0) {
+            this.putPersistentCache(
+              keys[index],
+              resRaw.getContentText(),
+              cacheTtls[keys[index]]
+            );
+          }
+        } catch (err) {
+          console.log(`Unable to parse prefetched result: ${err}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Get a result cached across executions.
+   *
+   * @param {string} cacheKey
+   * @returns {Object|null}
+   */
+  private getPersistentCache(cacheKey: string) {
+    const cached = CacheService.getScriptCache().get(
+      this.getPersistentCacheKey(cacheKey)
+    );
+
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  /**
+   * Cache a raw result across executions.
+   * Results exceeding the CacheService size limit are not cached.
+   *
+   * @param {string} cacheKey
+   * @param {string} content
+   * @param {number} cacheTtl Seconds, capped at 6 hours
+   */
+  private putPersistentCache(
+    cacheKey: string,
+    content: string,
+    cacheTtl: number
+  ) {
+    try {
+      CacheService.getScriptCache().put(
+        this.getPersistentCacheKey(cacheKey),
+        content || '{}',
+        Math.min(cacheTtl, MAX_CACHE_TTL)
+      );
+    } catch (err) {
+      console.log(`Unable to cache result: ${err}`);
+    }
+  }
+
+  /**
+   * Hash cache key to fit CacheService's key length limit.
+   * This also keeps credentials contained in headers out of the key.
+   *
+   * @param {string} cacheKey
+   * @returns {string}
+   */
+  private getPersistentCacheKey(cacheKey: string) {
+    return Utilities.base64Encode(
+      Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, cacheKey)
+    );
+  }
+
+  /**
+   * Build URL, fetch parameters and cache key for a request.
+   *
+   * @param {ApiRequest} request
+   * @returns {{url: string, params: Object, cacheKey: string}}
+   */
+  private buildRequest(request: ApiRequest) {
+    const method = request.method ?? 'get';
+    const contentType = request.contentType ?? 'application/json';
+    let url = request.url;
+    let body = request.body;
+
+    if (request.queryParams) {
+      url = `${url}${this.objectToUrlQuery(url, request.queryParams)}`;
     }
 
     const params: {
@@ -49,7 +255,7 @@ export class ApiHelper {
       contentType?: string;
       payload?: Object;
     } = {
-      headers: headers ?? {},
+      headers: request.headers ?? {},
       method: method as GoogleAppsScript.URL_Fetch.HttpMethod,
       muteHttpExceptions: true,
       contentType: contentType,
@@ -67,34 +273,14 @@ export class ApiHelper {
 
     const cacheKey = `${url}-${JSON.stringify(params)}`;
 
-    if (cacheKey in this.cache && this.cache[cacheKey]) {
-      console.log(
-        'Returning cached result',
-        JSON.stringify(this.cache[cacheKey])
-      );
-      return this.cache[cacheKey];
-    }
-
-    const resRaw = UrlFetchApp.fetch(url, params);
-
-    if (200 !== resRaw.getResponseCode() && 204 !== resRaw.getResponseCode()) {
-      Logger.log('HTTP code: ' + resRaw.getResponseCode());
-      Logger.log('API error: ' + resRaw.getContentText());
-      Logger.log('URL: ' + url);
-      Logger.log('Parameters: ' + JSON.stringify(params));
-      throw new Error(resRaw.getContentText());
-    }
-
-    const res = resRaw.getContentText()
-      ? JSON.parse(resRaw.getContentText())
-      : {};
-
-    // Only cache GET and forced cache requests
-    if (method.toLowerCase() === 'get' || forceCache) {
-      this.cache[cacheKey] = res;
-    }
+    return { url, params, cacheKey };
+  }
 
-    return res;
+  /**
+   * Drop all cached results, e.g. after a mutation made them stale.
+   */
+  clearCache() {
+    this.cache = {};
   }
 
   /**
@@ -38,6 +38,8 @@ export enum AUTH_MODE {
  * This class can be used to auth also to other Google APIs.
  */
 export class Auth {
+  static defaultScope = 'https://www.googleapis.com/auth/cloud-platform';
+  private static tokens: Record<string, string> = {};
   serviceAccount: ServiceAccount;
   authMode: AUTH_MODE;
 
@@ -65,23 +67,28 @@ export class Auth {
    * "client_x509_cert_url": "..."
    * }
    *
-   * @param {?Object} account The service account or empty
+   * @param {?Object|string} account The service account (or its JSON) or empty
    */
-  constructor(account?: Object) {
+  constructor(account?: Object | string) {
     this.authMode = account ? AUTH_MODE.SERVICE_ACCOUNT : AUTH_MODE.USER;
-    this.serviceAccount = account as ServiceAccount;
+    this.serviceAccount = (
+      typeof account === 'string' ? JSON.parse(account) : account
+    ) as ServiceAccount;
   }
 
   /**
    * Get Auth Token for OAuth authorization for your service account.
    * You need this token in order to authorize API requests.
+   * Service account tokens are cached per scopes and subject.
+   * In user mode the scopes are defined by the Apps Script manifest instead.
    * See more: https://github.com/gsuitedevs/apps-script-oauth2/blob/master/README.md
    * See more: https://developers.google.com/apps-script/reference/script/script-app#getOAuthToken()
    *
+   * @param {string[]} scopes OAuth scopes required by the caller
    * @returns {string} OAuth Token
    * @throws {Error}
    */
-  getAuthToken() {
+  getAuthToken(scopes: string[] = [Auth.defaultScope]) {
     if (this.authMode === AUTH_MODE.USER) {
       return ScriptApp.getOAuthToken();
     } else if (
@@ -91,16 +98,41 @@ export class Auth {
       throw new Error('No or invalid service account provided');
     }
 
-    const service = OAuth2.createService('Service Account')
+    const scope = [...scopes].sort().join(' ');
+    const cacheKey = [
+      this.serviceAccount.client_email,
+      this.serviceAccount.user_email ?? '',
+      scope,
+    ].join('|');
+
+    if (Auth.tokens[cacheKey]) {
+      return Auth.tokens[cacheKey];
+    }
+
+    // A distinct service name keeps tokens for different scopes and subjects
+    // apart in the property store, so they can be reused until they expire
+    const service = OAuth2.createService(
+      `Service Account ${Utilities.base64EncodeWebSafe(
+        Utilities.computeDigest(Utilities.DigestAlgorithm.SHA_256, cacheKey)
+      )}`
+    )
       .setTokenUrl('https://accounts.google.com/o/oauth2/token')
       .setPrivateKey(this.serviceAccount.private_key)
       .setIssuer(this.serviceAccount.client_email)
       .setSubject(this.serviceAccount.user_email)
       .setPropertyStore(PropertiesService.getScriptProperties())
       .setParam('access_type', 'offline')
-      .setScope('https://www.googleapis.com/auth/display-video');
+      .setScope(scope);
+
+    // Requests a new token if there is none or it has expired
+    if (!service.hasAccess()) {
+      throw new Error(
+        `Service account authorization failed: ${service.getLastError()}`
+      );
+    }
+
+    Auth.tokens[cacheKey] = service.getAccessToken();
 
-    service.reset();
-    return service.getAccessToken();
+    return Auth.tokens[cacheKey];
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { SheetsService } from './sheets';
+import { Utils } from './utils';
+
+interface ChangeContext {
+  ruleName: string;
+  agent: string;
+  evaluation: string;
+}
+
+/**
+ * Append-only log of every entity mutation.
+ * Entries are buffered and written to the change log sheet on flush().
+ */
+export class ChangeLog {
+  private static instance: ChangeLog;
+  private context: ChangeContext = { ruleName: '', agent: '', evaluation: '' };
+  private entries: string[][] = [];
+
+  /**
+   * Set the rule currently being processed.
+   * All subsequently recorded changes are attributed to it.
+   *
+   * @param {string} ruleName
+   * @param {string} agent
+   * @param {unknown} evaluation
+   */
+  setContext(ruleName: string, agent: string, evaluation: unknown) {
+    this.context = { ruleName, agent, evaluation: String(evaluation) };
+  }
+
+  /**
+   * Record a mutation of an entity.
+   *
+   * @param {string} resourceName
+   * @param {string} oldStatus
+   * @param {string} newStatus
+   */
+  record(resourceName: string, oldStatus: string, newStatus: string) {
+    this.entries.push([
+      Utils.getCurrentDateString(),
+      this.context.ruleName,
+      this.context.agent,
+      resourceName,
+      oldStatus,
+      newStatus,
+      this.context.evaluation,
+    ]);
+  }
+
+  /**
+   * Get all changes recorded since the last flush.
+   *
+   * @returns {string[][]}
+   */
+  getEntries() {
+    return this.entries;
+  }
+
+  /**
+   * Write all recorded changes to the change log sheet.
+   */
+  flush() {
+    if (this.entries.length === 0) return;
+
+    SheetsService.getInstance().appendRows(
+      CONFIG.changeLog.sheetName,
+      this.entries,
+      CONFIG.changeLog.headers
+    );
+
+    this.entries = [];
+  }
+
+  /**
+   * Returns the ChangeLog instance, initializing it if it does not exist yet.
+   *
+   * @returns {!ChangeLog}
+   */
+  static getInstance() {
+    if (!this.instance) {
+      this.instance = new ChangeLog();
+    }
+
+    return this.instance;
+  }
+}
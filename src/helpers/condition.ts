@@ -0,0 +1,374 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+type Value = boolean | number | string | null | undefined;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator';
+  value: string;
+}
+
+const OPERATORS = [
+  '&&',
+  '||',
+  '==',
+  '!=',
+  '>=',
+  '<=',
+  '>',
+  '<',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '(',
+  ')',
+];
+
+/**
+ * Evaluates conditions like 'result.0.current.temp > 25 && result.1.uv >= 3'
+ * without relying on sheet formulas. Only literals, value paths and a fixed
+ * set of operators are supported, so no arbitrary code can be executed.
+ *
+ * Operators by precedence: '!', '* / %', '+ -', '< <= > >=', '== !=', '&&',
+ * '||'. Values which look like numbers are compared as numbers.
+ */
+export class Condition {
+  private tokens: Token[];
+  private position = 0;
+
+  /**
+   * Constructor.
+   *
+   * @param {string} expression
+   * @param {Record<string, unknown>} values Values available via their path
+   */
+  constructor(
+    private readonly expression: string,
+    private readonly values: Record<string, unknown>
+  ) {
+    this.tokens = this.tokenize();
+  }
+
+  /**
+   * Evaluate an expression.
+   *
+   * @param {string} expression
+   * @param {Record<string, unknown>} values Values available via their path
+   * @returns {boolean|number|string|null|undefined}
+   * @throws {Error} If the expression is invalid
+   */
+  static evaluate(expression: string, values: Record<string, unknown>) {
+    return new Condition(expression, values).parse();
+  }
+
+  /**
+   * Parse and evaluate the whole expression.
+   *
+   * @returns {Value}
+   */
+  private parse() {
+    const value = this.parseOr();
+
+    if (this.position < this.tokens.length) {
+      this.fail(`unexpected '${this.tokens[this.position].value}'`);
+    }
+
+    return value;
+  }
+
+  private parseOr(): Value {
+    let value = this.parseAnd();
+
+    while (this.accept('||')) {
+      const right = this.parseAnd();
+      value = Condition.isTruthy(value) || Condition.isTruthy(right);
+    }
+
+    return value;
+  }
+
+  private parseAnd(): Value {
+    let value = this.parseEquality();
+
+    while (this.accept('&&')) {
+      const right = this.parseEquality();
+      value = Condition.isTruthy(value) && Condition.isTruthy(right);
+    }
+
+    return value;
+  }
+
+  private parseEquality(): Value {
+    let value = this.parseComparison();
+    let operator;
+
+    while ((operator = this.accept('==', '!='))) {
+      const equal = Condition.compare(value, this.parseComparison()) === 0;
+      value = operator === '==' ? equal : !equal;
+    }
+
+    return value;
+  }
+
+  private parseComparison(): Value {
+    let value = this.parseAdditive();
+    let operator;
+
+    while ((operator = this.accept('>=', '<=', '>', '<'))) {
+      const result = Condition.compare(value, this.parseAdditive());
+
+      value =
+        !isNaN(result) &&
+        {
+          '>=': result >= 0,
+          '<=': result <= 0,
+          '>': result > 0,
+          '<': result < 0,
+        }[operator];
+    }
+
+    return value;
+  }
+
+  private parseAdditive(): Value {
+    let value = this.parseMultiplicative();
+    let operator;
+
+    while ((operator = this.accept('+', '-'))) {
+      const right = this.parseMultiplicative();
+
+      value =
+        operator === '+'
+          ? Condition.isNumeric(value) && Condition.isNumeric(right)
+            ? Number(value) + Number(right)
+            : `${value ?? ''}${right ?? ''}`
+          : Number(value) - Number(right);
+    }
+
+    return value;
+  }
+
+  private parseMultiplicative(): Value {
+    let value = this.parseUnary();
+    let operator;
+
+    while ((operator = this.accept('*', '/', '%'))) {
+      const right = Number(this.parseUnary());
+
+      value =
+        operator === '*'
+          ? Number(value) * right
+          : operator === '/'
+          ? Number(value) / right
+          : Number(value) % right;
+    }
+
+    return value;
+  }
+
+  private parseUnary(): Value {
+    if (this.accept('!')) {
+      return !Condition.isTruthy(this.parseUnary());
+    }
+    if (this.accept('-')) {
+      return -Number(this.parseUnary());
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Value {
+    const token = this.tokens[this.position++];
+
+    if (!token) {
+      return this.fail('unexpected end');
+    }
+
+    switch (token.type) {
+      case 'number':
+        return Number(token.value);
+      case 'string':
+        return token.value;
+      case 'identifier':
+        return this.resolve(token.value);
+      default:
+        if (token.value === '(') {
+          const value = this.parseOr();
+
+          if (!this.accept(')')) {
+            this.fail("missing ')'");
+          }
+
+          return value;
+        }
+
+        return this.fail(`unexpected '${token.value}'`);
+    }
+  }
+
+  /**
+   * Get the value of a literal or path like 'result.0.current.temp'.
+   *
+   * @param {string} path
+   * @returns {Value}
+   */
+  private resolve(path: string): Value {
+    const literals: Record<string, Value> = {
+      true: true,
+      false: false,
+      null: null,
+    };
+
+    if (path.toLowerCase() in literals) {
+      return literals[path.toLowerCase()];
+    }
+
+    let value: unknown = this.values;
+
+    for (const key of path.split('.')) {
+      if (
+        value === null ||
+        typeof value !== 'object' ||
+        !Object.prototype.hasOwnProperty.call(value, key)
+      ) {
+        return this.fail(`unknown value '${path}'`);
+      }
+
+      value = (value as Record<string, unknown>)[key];
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return this.fail(`'${path}' is not a single value`);
+    }
+
+    return value as Value;
+  }
+
+  /**
+   * Consume the next token if it is one of the given operators.
+   *
+   * @param {...string} operators
+   * @returns {string|undefined} The consumed operator
+   */
+  private accept(...operators: string[]) {
+    const token = this.tokens[this.position];
+
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Split the expression into tokens.
+   *
+   * @returns {Token[]}
+   */
+  private tokenize() {
+    const tokens: Token[] = [];
+    const exp =
+      /\s*(?:(\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_$][\w$]*(?:\.[\w$]+)*)|(&&|\|\||[=!<>]=|[!<>+\-*/%()]))/y;
+    let match;
+
+    while (exp.lastIndex < this.expression.length) {
+      const start = exp.lastIndex;
+
+      if (!(match = exp.exec(this.expression))) {
+        if (/^\s*$/.test(this.expression.slice(start))) break;
+
+        this.fail(`unexpected character at position ${start + 1}`);
+      }
+
+      if (match[1] !== undefined) {
+        tokens.push({ type: 'number', value: match[1] });
+      } else if (match[2] !== undefined || match[3] !== undefined) {
+        tokens.push({
+          type: 'string',
+          value: (match[2] ?? match[3]).replace(/\\(.)/g, '$1'),
+        });
+      } else if (match[4] !== undefined) {
+        tokens.push({ type: 'identifier', value: match[4] });
+      } else if (OPERATORS.includes(match[5])) {
+        tokens.push({ type: 'operator', value: match[5] });
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Throw an error for the current expression.
+   *
+   * @param {string} reason
+   * @returns {never}
+   */
+  private fail(reason: string): never {
+    throw new Error(`Invalid condition '${this.expression}': ${reason}`);
+  }
+
+  /**
+   * Compare two values, numerically if both look like numbers.
+   *
+   * @param {Value} a
+   * @param {Value} b
+   * @returns {number} Negative, zero or positive, NaN if not comparable
+   */
+  private static compare(a: Value, b: Value) {
+    if (Condition.isNumeric(a) && Condition.isNumeric(b)) {
+      return Number(a) - Number(b);
+    }
+    if (typeof a === 'boolean' || typeof b === 'boolean') {
+      return Condition.isTruthy(a) === Condition.isTruthy(b) ? 0 : NaN;
+    }
+    if (a === null || a === undefined || b === null || b === undefined) {
+      return (a ?? null) === (b ?? null) ? 0 : NaN;
+    }
+
+    return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+  }
+
+  /**
+   * Check if a value is a number or a numeric string.
+   *
+   * @param {Value} value
+   * @returns {boolean}
+   */
+  private static isNumeric(value: Value) {
+    return (
+      typeof value === 'number' ||
+      (typeof value === 'string' &&
+        value.trim() !== '' &&
+        !isNaN(Number(value)))
+    );
+  }
+
+  /**
+   * Check if a value counts as true, including the string 'TRUE'.
+   *
+   * @param {Value} value
+   * @returns {boolean}
+   */
+  private static isTruthy(value: Value) {
+    return typeof value === 'string'
+      ? !['', 'false', '0'].includes(value.trim().toLowerCase())
+      : Boolean(value);
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { SheetsService } from './sheets';
+
+/**
+ * Loads overrides for CONFIG from an optional sheet in the spreadsheet,
+ * so that settings can be changed without redeploying the script.
+ * The sheet holds one setting per row: the key (e.g. 'rules.sheetName')
+ * in the first column and the value in the second.
+ */
+export class ConfigSheet {
+  static overridableKeys = [
+    'rules.sheetName',
+    'rules.startRow',
+    'rules.defaultUpdateInterval',
+    'sourceNamespace',
+    'targetNamespace',
+    'resultNamespace',
+    'ruleNamespace',
+    'limits.maxExecutionTime',
+    'limits.maxParallelRequests',
+  ];
+
+  // Keys which must be at least 1, e.g. as 0 would never finish a loop
+  static positiveKeys = [
+    'rules.startRow',
+    'limits.maxExecutionTime',
+    'limits.maxParallelRequests',
+  ];
+
+  // Keys which must be whole numbers, e.g. row numbers
+  static integerKeys = ['rules.startRow', 'limits.maxParallelRequests'];
+
+  /**
+   * Apply the overrides from the config sheet, if there is one.
+   */
+  static load() {
+    const rows = SheetsService.getInstance().getRangeData(
+      CONFIG.configSheetName,
+      1,
+      1,
+      0,
+      2
+    );
+
+    ConfigSheet.apply(rows);
+  }
+
+  /**
+   * Apply overrides to CONFIG. Rows with an empty value are skipped,
+   * as is a header row.
+   *
+   * @param {Array<Array<unknown>>} rows Key/value pairs
+   * @throws {Error} If a key is unknown or a value is invalid
+   */
+  static apply(rows: unknown[][]) {
+    rows.forEach((row, index) => {
+      const key = String(row[0] ?? '').trim();
+      const value = String(row[1] ?? '').trim();
+
+      if (!key || value === '' || (index === 0 && key === 'Key')) return;
+
+      if (!ConfigSheet.overridableKeys.includes(key)) {
+        throw new Error(`Unknown config key: '${key}'`);
+      }
+
+      const path = key.split('.');
+      const property = path.pop() as string;
+      const parent = path.reduce(
+        (obj, part) => obj[part] as Record<string, unknown>,
+        CONFIG as Record<string, unknown>
+      );
+
+      if (typeof parent[property] === 'number') {
+        const number = Number(value);
+
+        if (
+          isNaN(number) ||
+          number < (ConfigSheet.positiveKeys.includes(key) ? 1 : 0) ||
+          (ConfigSheet.integerKeys.includes(key) && !Number.isInteger(number))
+        ) {
+          throw new Error(`Invalid number for config key '${key}': ${value}`);
+        }
+
+        parent[property] = number;
+      } else {
+        parent[property] = value;
+      }
+    });
+  }
+}
@@ -15,6 +15,7 @@
  */
 
 import { JPath } from './jpath';
+import { Secrets } from './secrets';
 
 export class DynamicColumnHeaders {
   headers: string[];
@@ -36,6 +37,7 @@ export class DynamicColumnHeaders {
    * and nests the results under each namespace as property.
    * Per default it will nest results under the respective group, which is '0'
    * if none exists.
+   * Secret references ('{{secret:NAME}}') are replaced with the stored secret.
    *
    * @param {string[]} row
    * @param {string} namespace
@@ -69,13 +71,29 @@ export class DynamicColumnHeaders {
           includeGroup ? `${group}.` : ''
         }${prefixAndPath[1]}`;
 
-        res = JPath.setValue(res, path, cell);
+        res = JPath.setValue(res, path, Secrets.resolve(cell));
       }
     });
 
     return res;
   }
 
+  /**
+   * Returns the indexes of all headers with the given namespace.
+   *
+   * @param {string} namespace
+   * @returns {number[]}
+   */
+  getColsWithNamespace(namespace: string) {
+    const exp = new RegExp(
+      `^${namespace}(?:\\.\\d)*${DynamicColumnHeaders.namespaceSeparator}`
+    );
+
+    return this.headers
+      .map((header, index) => (exp.test(header) ? index : -1))
+      .filter(index => index > -1);
+  }
+
   /**
    * Returns the index of the first header to have the given namespace.
    *
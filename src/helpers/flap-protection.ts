@@ -0,0 +1,131 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface FlapSettings {
+  minDwellTime?: string | number; // hours
+  consecutiveEvaluations?: string | number;
+}
+
+export interface FlapState {
+  evaluation: string;
+  count: number;
+  applied?: string;
+  appliedAt?: number;
+}
+
+/**
+ * Prevents rules from flapping between states on borderline values by
+ * requiring a minimum dwell time and a number of consecutive identical
+ * evaluations before an evaluation is applied.
+ */
+export class FlapProtection {
+  static propertyPrefix = 'flapState:';
+
+  /**
+   * Check if any flap protection setting is in use.
+   *
+   * @param {FlapSettings} settings
+   * @returns {boolean}
+   */
+  static isEnabled(settings: FlapSettings) {
+    return (
+      Number(settings.minDwellTime) > 0 ||
+      Number(settings.consecutiveEvaluations) > 1
+    );
+  }
+
+  /**
+   * Register a new evaluation and decide whether it may be applied.
+   *
+   * @param {FlapState|undefined} state Previous state, if any
+   * @param {unknown} evaluation
+   * @param {FlapSettings} settings
+   * @param {number} now Current time in milliseconds
+   * @returns {{apply: boolean, reason: string, state: FlapState}}
+   */
+  static check(
+    state: FlapState | undefined,
+    evaluation: unknown,
+    settings: FlapSettings,
+    now = Date.now()
+  ) {
+    const value = String(evaluation);
+    const requiredCount = Number(settings.consecutiveEvaluations) || 1;
+    const minDwellTime = Number(settings.minDwellTime) || 0;
+
+    const newState: FlapState = {
+      ...state,
+      evaluation: value,
+      count: state && state.evaluation === value ? state.count + 1 : 1,
+    };
+
+    // Re-applying the current state never flaps
+    if (newState.applied === value) {
+      return { apply: true, reason: '', state: newState };
+    }
+
+    if (newState.count < requiredCount) {
+      return {
+        apply: false,
+        reason: `${newState.count}/${requiredCount} consecutive evaluations`,
+        state: newState,
+      };
+    }
+
+    if (
+      newState.appliedAt !== undefined &&
+      now < newState.appliedAt + minDwellTime * 3600 * 1000
+    ) {
+      return {
+        apply: false,
+        reason: `Minimum dwell time of ${minDwellTime}h not reached`,
+        state: newState,
+      };
+    }
+
+    newState.applied = value;
+    newState.appliedAt = now;
+
+    return { apply: true, reason: '', state: newState };
+  }
+
+  /**
+   * Load the state stored for a rule.
+   *
+   * @param {string} key
+   * @returns {FlapState|undefined}
+   */
+  static load(key: string): FlapState | undefined {
+    const state = PropertiesService.getScriptProperties().getProperty(
+      `${FlapProtection.propertyPrefix}${key}`
+    );
+
+    return state ? JSON.parse(state) : undefined;
+  }
+
+  /**
+   * Store the state for a rule.
+   *
+   * @param {string} key
+   * @param {FlapState} state
+   */
+  static save(key: string, state: FlapState) {
+    PropertiesService.getScriptProperties().setProperty(
+      `${FlapProtection.propertyPrefix}${key}`,
+      JSON.stringify(state)
+    );
+  }
+}
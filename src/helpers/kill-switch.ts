@@ -0,0 +1,55 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Global switch stored in Script Properties to stop all syncs at once,
+ * including those started by already scheduled triggers.
+ */
+export class KillSwitch {
+  static propertyKey = 'killSwitch';
+
+  /**
+   * Check if syncing has been stopped.
+   *
+   * @returns {boolean}
+   */
+  static isActive() {
+    return (
+      PropertiesService.getScriptProperties().getProperty(
+        KillSwitch.propertyKey
+      ) === 'true'
+    );
+  }
+
+  /**
+   * Stop all syncs until the kill switch is deactivated again.
+   */
+  static activate() {
+    PropertiesService.getScriptProperties().setProperty(
+      KillSwitch.propertyKey,
+      'true'
+    );
+  }
+
+  /**
+   * Allow syncs again.
+   */
+  static deactivate() {
+    PropertiesService.getScriptProperties().deleteProperty(
+      KillSwitch.propertyKey
+    );
+  }
+}
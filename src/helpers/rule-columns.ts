@@ -0,0 +1,101 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../config';
+import { DynamicColumnHeaders } from './dynamic-column-headers';
+
+export type RuleColumn = keyof typeof CONFIG.rules.cols;
+
+/**
+ * Resolves the reserved rule columns by their header text, so that columns
+ * can be reordered, inserted or hidden without breaking anything.
+ * Headers match either the configured header text or the column's key,
+ * ignoring case, spaces and punctuation (e.g. 'Target Agent', 'targetAgent').
+ */
+export class RuleColumns {
+  private indexes: Partial<Record<RuleColumn, number>> = {};
+
+  /**
+   * Constructor.
+   *
+   * @param {string[]} headers
+   * @throws {Error} If any reserved column is missing
+   */
+  constructor(headers: string[]) {
+    // Dynamic columns (e.g. 'target:id') are never reserved columns
+    const normalizedHeaders = headers.map(header =>
+      String(header).includes(DynamicColumnHeaders.namespaceSeparator)
+        ? ''
+        : RuleColumns.normalize(header)
+    );
+
+    const missing: string[] = [];
+
+    for (const column of Object.keys(CONFIG.rules.cols) as RuleColumn[]) {
+      const candidates = [CONFIG.rules.cols[column], column].map(
+        RuleColumns.normalize
+      );
+      const index = normalizedHeaders.findIndex(header =>
+        candidates.includes(header)
+      );
+
+      if (index === -1) {
+        if (!CONFIG.rules.optionalCols.includes(column)) {
+          missing.push(CONFIG.rules.cols[column]);
+        }
+      } else {
+        this.indexes[column] = index;
+      }
+    }
+
+    if (missing.length) {
+      throw new Error(`Missing column(s): ${missing.join(', ')}`);
+    }
+  }
+
+  /**
+   * Get the (0-based) index of a reserved column.
+   *
+   * @param {RuleColumn} column
+   * @returns {number} -1 if an optional column is missing
+   */
+  getIndex(column: RuleColumn) {
+    return this.indexes[column] ?? -1;
+  }
+
+  /**
+   * Get the value of a reserved column in a row.
+   *
+   * @param {string[]} row
+   * @param {RuleColumn} column
+   * @returns {string|undefined} Undefined if an optional column is missing
+   */
+  getValue(row: string[], column: RuleColumn) {
+    return row[this.getIndex(column)];
+  }
+
+  /**
+   * Normalize header text for comparison.
+   *
+   * @param {string} header
+   * @returns {string}
+   */
+  static normalize(header: string) {
+    return String(header)
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+  }
+}
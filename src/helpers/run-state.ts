@@ -0,0 +1,90 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface RunProgress {
+  runId: string;
+  mode: number;
+  sheetName: string;
+  rowIndex: number;
+}
+
+/**
+ * Persists the progress of a run in Script Properties so that it can be
+ * continued by a time-based trigger once the execution time limit is hit.
+ */
+export class RunState {
+  static propertyKey = 'runProgress';
+  static continuationHandler = 'resume';
+  static continuationDelay = 60 * 1000;
+
+  /**
+   * Load the progress of an unfinished run.
+   *
+   * @returns {RunProgress|undefined}
+   */
+  static load(): RunProgress | undefined {
+    const progress = PropertiesService.getScriptProperties().getProperty(
+      RunState.propertyKey
+    );
+
+    return progress ? JSON.parse(progress) : undefined;
+  }
+
+  /**
+   * Save the progress of the current run.
+   *
+   * @param {RunProgress} progress
+   */
+  static save(progress: RunProgress) {
+    PropertiesService.getScriptProperties().setProperty(
+      RunState.propertyKey,
+      JSON.stringify(progress)
+    );
+  }
+
+  /**
+   * Remove any saved progress and pending continuation triggers.
+   */
+  static clear() {
+    PropertiesService.getScriptProperties().deleteProperty(
+      RunState.propertyKey
+    );
+    RunState.deleteContinuationTriggers();
+  }
+
+  /**
+   * Schedule a one-off trigger to continue the saved run.
+   */
+  static scheduleContinuation() {
+    RunState.deleteContinuationTriggers();
+
+    ScriptApp.newTrigger(RunState.continuationHandler)
+      .timeBased()
+      .after(RunState.continuationDelay)
+      .create();
+  }
+
+  /**
+   * Delete all continuation triggers.
+   */
+  static deleteContinuationTriggers() {
+    ScriptApp.getProjectTriggers()
+      .filter(
+        trigger => trigger.getHandlerFunction() === RunState.continuationHandler
+      )
+      .forEach(trigger => ScriptApp.deleteTrigger(trigger));
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface ScheduleCheck {
+  due: boolean;
+  forcedEvaluation?: boolean | number | string;
+}
+
+interface DateParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const MINUTE = 60 * 1000;
+// All time zone offsets are multiples of 15 minutes
+const STEP = 15 * MINUTE;
+
+/**
+ * Decides whether a rule is due according to its Update Interval, which may
+ * be a number of hours, a cron expression (e.g. '0 8 * * Mon-Fri') or an
+ * active time window (e.g. 'Mon-Fri 06:00-22:00 Europe/Berlin else FALSE').
+ * Cron expressions and windows may end with a time zone.
+ */
+export class Schedule {
+  // Scheduled times older than this are not caught up on
+  static maxLookback = 31 * 24 * 3600 * 1000;
+
+  private static formatters: Record<string, Intl.DateTimeFormat> = {};
+
+  /**
+   * Check if a rule is due.
+   *
+   * @param {string|number} spec Update Interval
+   * @param {number} lastUpdate Time of the last update in milliseconds
+   * @param {number} now Current time in milliseconds
+   * @param {string} defaultTimeZone Time zone if the spec has none
+   * @returns {ScheduleCheck}
+   * @throws {Error} If the spec is invalid
+   */
+  static check(
+    spec: string | number,
+    lastUpdate: number,
+    now: number,
+    defaultTimeZone: string
+  ): ScheduleCheck {
+    const value = String(spec).trim();
+
+    if (value === '' || !isNaN(Number(value))) {
+      const hours = Number(value);
+
+      return {
+        due: !(hours > 0 && now < lastUpdate + hours * 3600 * 1000),
+      };
+    }
+
+    const tokens = value.split(/\s+/);
+    let timeZone = defaultTimeZone;
+
+    // Windows may have their time zone before 'else <state>'
+    const timeZoneIndex =
+      tokens.length > 3 && tokens[tokens.length - 2].toLowerCase() === 'else'
+        ? tokens.length - 3
+        : tokens.length - 1;
+
+    if (timeZoneIndex > 0 && Schedule.isTimeZone(tokens[timeZoneIndex])) {
+      timeZone = tokens.splice(timeZoneIndex, 1)[0];
+    }
+
+    if (tokens.length === 5 && !value.includes(':')) {
+      return {
+        due: Schedule.matchesCronSince(tokens, lastUpdate, now, timeZone),
+      };
+    }
+
+    return Schedule.checkWindow(value, tokens, now, timeZone);
+  }
+
+  /**
+   * Check an active time window, optionally followed by 'else <state>'.
+   *
+   * @param {string} spec
+   * @param {string[]} tokens Tokens of the spec without time zone
+   * @param {number} now
+   * @param {string} timeZone
+   * @returns {ScheduleCheck}
+   */
+  private static checkWindow(
+    spec: string,
+    tokens: string[],
+    now: number,
+    timeZone: string
+  ): ScheduleCheck {
+    let forcedEvaluation: ScheduleCheck['forcedEvaluation'];
+    const elseIndex = tokens.findIndex(token => token.toLowerCase() === 'else');
+
+    if (elseIndex > -1) {
+      if (elseIndex !== tokens.length - 2) {
+        throw new Error(`Invalid update interval: '${spec}'`);
+      }
+
+      forcedEvaluation = Schedule.parseEvaluation(tokens[elseIndex + 1]);
+      tokens = tokens.slice(0, elseIndex);
+    }
+
+    if (tokens.length === 0 || tokens.length > 2) {
+      throw new Error(`Invalid update interval: '${spec}'`);
+    }
+
+    const parts = Schedule.getDateParts(now, timeZone);
+    let active = true;
+
+    for (const token of tokens) {
+      const time = token.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/);
+
+      if (time) {
+        const start = Number(time[1]) * 60 + Number(time[2]);
+        const end = Number(time[3]) * 60 + Number(time[4]);
+        const current = parts.hour * 60 + parts.minute;
+
+        // Windows ending before they start span midnight
+        active &&=
+          start < end
+            ? current >= start && current < end
+            : current >= start || current < end;
+      } else {
+        active &&= Schedule.parseField(token, 0, 6, WEEKDAYS, spec).has(
+          parts.weekday
+        );
+      }
+    }
+
+    if (active) {
+      return { due: true };
+    }
+
+    return forcedEvaluation === undefined
+      ? { due: false }
+      : { due: true, forcedEvaluation };
+  }
+
+  /**
+   * Check if a cron expression matched any minute in (lastUpdate, now].
+   *
+   * @param {string[]} fields Minute, hour, day of month, month, day of week
+   * @param {number} lastUpdate
+   * @param {number} now
+   * @param {string} timeZone
+   * @returns {boolean}
+   */
+  private static matchesCronSince(
+    fields: string[],
+    lastUpdate: number,
+    now: number,
+    timeZone: string
+  ) {
+    const spec = fields.join(' ');
+    const minutes = Schedule.parseField(fields[0], 0, 59, [], spec);
+    const hours = Schedule.parseField(fields[1], 0, 23, [], spec);
+    const days = Schedule.parseField(fields[2], 1, 31, [], spec);
+    const months = Schedule.parseField(fields[3], 1, 12, MONTHS, spec, 1);
+    const weekdays = Schedule.parseField(fields[4], 0, 7, WEEKDAYS, spec);
+
+    // Sunday may be given as 0 or 7
+    if (weekdays.has(7)) weekdays.add(0);
+
+    // Like cron, match either day field if both are restricted
+    const matchesDay = (parts: DateParts) =>
+      fields[2] !== '*' && fields[4] !== '*'
+        ? days.has(parts.day) || weekdays.has(parts.weekday)
+        : days.has(parts.day) && weekdays.has(parts.weekday);
+
+    const from = Math.max(lastUpdate, now - Schedule.maxLookback);
+
+    // Check quarter hours, which never span two local hours, and only look
+    // at single minutes within the ones matching hour and day
+    for (let time = from - (from % STEP); time <= now; time += STEP) {
+      const parts = Schedule.getDateParts(time, timeZone);
+
+      if (
+        !hours.has(parts.hour) ||
+        !months.has(parts.month) ||
+        !matchesDay(parts)
+      ) {
+        continue;
+      }
+
+      for (let i = 0; i < STEP / MINUTE; i++) {
+        const minute = time + i * MINUTE;
+
+        if (minute > from && minute <= now && minutes.has(parts.minute + i)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Parse a cron-style field, e.g. '*', '*\/15', '1,3', 'Mon-Fri'.
+   * Ranges of names may wrap around, e.g. 'Fri-Mon'.
+   *
+   * @param {string} field
+   * @param {number} min
+   * @param {number} max
+   * @param {string[]} names Names of the values, starting at nameOffset
+   * @param {string} spec Full spec for error messages
+   * @param {number=} nameOffset Value of the first name
+   * @returns {Set<number>}
+   */
+  private static parseField(
+    field: string,
+    min: number,
+    max: number,
+    names: string[],
+    spec: string,
+    nameOffset = 0
+  ) {
+    const values = new Set<number>();
+    const parseValue = (value: string) => {
+      const index = names.indexOf(value.slice(0, 3).toLowerCase());
+      const number = index > -1 ? index + nameOffset : Number(value);
+
+      if (!/^\d+$/.test(value) && index === -1) {
+        throw new Error(`Invalid update interval: '${spec}'`);
+      }
+      if (number < min || number > max) {
+        throw new Error(`Invalid update interval: '${spec}'`);
+      }
+
+      return number;
+    };
+
+    for (const part of field.split(',')) {
+      const [range, stepValue] = part.split('/');
+      const step = stepValue === undefined ? 1 : Number(stepValue);
+
+      if (!(step > 0)) {
+        throw new Error(`Invalid update interval: '${spec}'`);
+      }
+
+      let [start, end] = [min, max];
+
+      if (range !== '*') {
+        const bounds = range.split('-');
+
+        start = parseValue(bounds[0]);
+        end = bounds.length > 1 ? parseValue(bounds[1]) : start;
+      }
+
+      const count =
+        end >= start ? end - start + 1 : max - min + 1 - (start - end - 1);
+
+      for (let i = 0; i < count; i += step) {
+        values.add(((start - min + i) % (max - min + 1)) + min);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Parse a forced evaluation, e.g. 'FALSE'.
+   *
+   * @param {string} value
+   * @returns {boolean|number|string}
+   */
+  private static parseEvaluation(value: string) {
+    if (/^true$/i.test(value)) return true;
+    if (/^false$/i.test(value)) return false;
+
+    return isNaN(Number(value)) ? value : Number(value);
+  }
+
+  /**
+   * Check if a token is a valid IANA time zone.
+   *
+   * @param {string} token
+   * @returns {boolean}
+   */
+  private static isTimeZone(token: string) {
+    if (!/^[A-Za-z][\w+-]*(\/[\w+-]+)*$/.test(token) || token.length < 3) {
+      return false;
+    }
+
+    try {
+      Schedule.getFormatter(token);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  }
+
+  /**
+   * Get the date parts of a point in time in the given time zone.
+   *
+   * @param {number} time
+   * @param {string} timeZone
+   * @returns {DateParts}
+   */
+  private static getDateParts(time: number, timeZone: string): DateParts {
+    const parts: Record<string, string> = {};
+
+    Schedule.getFormatter(timeZone)
+      .formatToParts(new Date(time))
+      .forEach(part => (parts[part.type] = part.value));
+
+    return {
+      minute: Number(parts.minute),
+      hour: Number(parts.hour) % 24,
+      day: Number(parts.day),
+      month: Number(parts.month),
+      weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+    };
+  }
+
+  /**
+   * Get a (cached) formatter for the given time zone.
+   *
+   * @param {string} timeZone
+   * @returns {Intl.DateTimeFormat}
+   * @throws {RangeError} If the time zone is invalid
+   */
+  private static getFormatter(timeZone: string) {
+    if (!Schedule.formatters[timeZone]) {
+      Schedule.formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        weekday: 'short',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    }
+
+    return Schedule.formatters[timeZone];
+  }
+}
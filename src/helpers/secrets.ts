@@ -0,0 +1,85 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Stores secrets in Script Properties, so that sheet cells can reference
+ * them via '{{secret:NAME}}' instead of holding them in plain text.
+ */
+export class Secrets {
+  static propertyPrefix = 'secret:';
+  static referencePattern = /\{\{secret:([\w.-]+)\}\}/g;
+
+  /**
+   * Replace all secret references in a value with the stored secrets.
+   *
+   * @param {T} value
+   * @returns {T|string}
+   * @throws {Error} If a referenced secret does not exist
+   */
+  static resolve<T>(value: T): T | string {
+    if (typeof value !== 'string' || !value.includes('{{secret:')) {
+      return value;
+    }
+
+    return value.replace(Secrets.referencePattern, (_, name: string) => {
+      const secret = PropertiesService.getScriptProperties().getProperty(
+        `${Secrets.propertyPrefix}${name}`
+      );
+
+      if (secret === null) {
+        throw new Error(`Unknown secret: '${name}'`);
+      }
+
+      return secret;
+    });
+  }
+
+  /**
+   * Store a secret.
+   *
+   * @param {string} name
+   * @param {string} value
+   */
+  static set(name: string, value: string) {
+    PropertiesService.getScriptProperties().setProperty(
+      `${Secrets.propertyPrefix}${name}`,
+      value
+    );
+  }
+
+  /**
+   * Delete a secret.
+   *
+   * @param {string} name
+   */
+  static delete(name: string) {
+    PropertiesService.getScriptProperties().deleteProperty(
+      `${Secrets.propertyPrefix}${name}`
+    );
+  }
+
+  /**
+   * Get the names of all stored secrets.
+   *
+   * @returns {string[]}
+   */
+  static list() {
+    return PropertiesService.getScriptProperties()
+      .getKeys()
+      .filter(key => key.startsWith(Secrets.propertyPrefix))
+      .map(key => key.substring(Secrets.propertyPrefix.length));
+  }
+}
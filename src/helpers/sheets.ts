@@ -90,6 +90,33 @@ export class SheetsService {
     }
   }
 
+  /**
+   * Appends the given rows to the end of the specified sheet.
+   * Creates the sheet (with the optional header row) if it does not exist.
+   *
+   * @param {string} sheetName The name of the sheet
+   * @param {Array<Array<string>>} values The rows to append
+   * @param {string[]=} headers Optional header row for newly created sheets
+   */
+  appendRows(sheetName: string, values: string[][], headers?: string[]) {
+    let sheet = this.getSpreadsheet().getSheetByName(sheetName);
+
+    if (!sheet) {
+      sheet = this.getSpreadsheet().insertSheet(sheetName);
+
+      if (headers) {
+        sheet.appendRow(headers);
+        sheet.setFrozenRows(1);
+      }
+    }
+
+    if (values[0]) {
+      sheet
+        .getRange(sheet.getLastRow() + 1, 1, values.length, values[0].length)
+        .setValues(values);
+    }
+  }
+
   /**
    * Retrieves data from the underlying spreadsheet using the provided range
    * parameters and sheet name.
@@ -113,7 +140,7 @@ export class SheetsService {
     const sheet = this.getSpreadsheet().getSheetByName(sheetName);
 
     // Return empty result if no rows
-    if (!sheet || numRows + sheet.getLastRow() - startRow + 1 === 0) {
+    if (!sheet || (!numRows && sheet.getLastRow() < startRow)) {
       return [[]];
     }
 
@@ -127,6 +154,28 @@ export class SheetsService {
       .getValues();
   }
 
+  /**
+   * Returns the names of all sheets matching the given pattern,
+   * in the order of the sheet tabs. '*' matches any characters.
+   *
+   * @param {string} pattern Sheet name, e.g. 'Rules' or 'Rules*'
+   * @param {string[]} exclude Sheet names never to return
+   * @return {string[]} The matching sheet names
+   */
+  getSheetNames(pattern: string, exclude: string[] = []) {
+    const exp = new RegExp(
+      `^${pattern
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`
+    );
+
+    return this.getSpreadsheet()
+      .getSheets()
+      .map(sheet => sheet.getName())
+      .filter(name => exp.test(name) && !exclude.includes(name));
+  }
+
   /**
    * Retrieves a cell's value by the given parameters.
    *
@@ -0,0 +1,185 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ApiHelper, ApiRequest, MAX_CACHE_TTL } from './api';
+import { Auth } from './auth';
+
+export enum SOURCE_AUTH_TYPE {
+  OAUTH2_CLIENT_CREDENTIALS = 'oauth2',
+  BASIC = 'basic',
+  API_KEY = 'apiKey',
+  GOOGLE = 'google',
+}
+
+export interface SourceAuthParams {
+  type: SOURCE_AUTH_TYPE;
+  // OAuth2 client credentials
+  tokenUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string; // also used for Google identity
+  // Basic auth
+  user?: string;
+  password?: string;
+  // API key, sent as header (default 'x-api-key') or query parameter
+  key?: string;
+  header?: string;
+  param?: string;
+  // Google identity, uses the current user if no service account is set
+  serviceAccount?: string;
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+}
+
+// Seconds to renew tokens before they actually expire.
+const TOKEN_EXPIRY_MARGIN = 60;
+
+/**
+ * Resolves source authentication settings into request headers or
+ * query parameters.
+ */
+export class SourceAuth extends ApiHelper {
+  private static instance: SourceAuth;
+  private tokens: Record<string, string> = {};
+
+  /**
+   * Add authentication to a source request.
+   *
+   * @param {SourceAuthParams} auth
+   * @param {ApiRequest} request
+   * @returns {ApiRequest}
+   * @throws {Error}
+   */
+  apply(auth: SourceAuthParams, request: ApiRequest): ApiRequest {
+    const headers = { ...request.headers };
+    const queryParams = { ...request.queryParams };
+
+    if (auth.type === SOURCE_AUTH_TYPE.OAUTH2_CLIENT_CREDENTIALS) {
+      headers['Authorization'] = `Bearer ${this.getClientCredentialsToken(
+        auth
+      )}`;
+    } else if (auth.type === SOURCE_AUTH_TYPE.BASIC) {
+      headers['Authorization'] = `Basic ${Utilities.base64Encode(
+        `${auth.user ?? ''}:${auth.password ?? ''}`
+      )}`;
+    } else if (auth.type === SOURCE_AUTH_TYPE.API_KEY) {
+      if (!auth.key) {
+        throw new Error('Missing source auth parameter: key');
+      }
+
+      if (auth.param) {
+        queryParams[auth.param] = auth.key;
+      } else {
+        headers[auth.header || 'x-api-key'] = auth.key;
+      }
+    } else if (auth.type === SOURCE_AUTH_TYPE.GOOGLE) {
+      headers['Authorization'] = `Bearer ${new Auth(
+        auth.serviceAccount || undefined
+      ).getAuthToken(auth.scope ? auth.scope.split(/[\s,]+/) : undefined)}`;
+    } else {
+      throw new Error(`Unknown source auth type: '${auth.type}'`);
+    }
+
+    return { ...request, headers, queryParams };
+  }
+
+  /**
+   * Get an access token using the OAuth2 client credentials grant.
+   * Tokens are cached until shortly before they expire.
+   *
+   * @param {SourceAuthParams} auth
+   * @returns {string}
+   * @throws {Error}
+   */
+  private getClientCredentialsToken(auth: SourceAuthParams) {
+    for (const param of ['tokenUrl', 'clientId', 'clientSecret'] as const) {
+      if (!auth[param]) {
+        throw new Error(`Missing source auth parameter: ${param}`);
+      }
+    }
+
+    const cacheKey = Utilities.base64Encode(
+      Utilities.computeDigest(
+        Utilities.DigestAlgorithm.SHA_256,
+        `oauth2:${auth.tokenUrl}:${auth.clientId}:${auth.scope ?? ''}`
+      )
+    );
+
+    if (this.tokens[cacheKey]) {
+      return this.tokens[cacheKey];
+    }
+
+    const cachedToken = CacheService.getScriptCache().get(cacheKey);
+
+    if (cachedToken) {
+      this.tokens[cacheKey] = cachedToken;
+      return cachedToken;
+    }
+
+    const body: Record<string, string> = {
+      grant_type: 'client_credentials',
+      client_id: auth.clientId as string,
+      client_secret: auth.clientSecret as string,
+    };
+
+    if (auth.scope) {
+      body.scope = auth.scope;
+    }
+
+    const res = this.callApi(
+      auth.tokenUrl as string,
+      undefined,
+      undefined,
+      body,
+      'post',
+      'application/x-www-form-urlencoded'
+    ) as TokenResponse;
+
+    if (!res.access_token) {
+      throw new Error(`No access token received from ${auth.tokenUrl}`);
+    }
+
+    this.tokens[cacheKey] = res.access_token;
+
+    const ttl = Number(res.expires_in) - TOKEN_EXPIRY_MARGIN;
+
+    if (ttl > 0) {
+      CacheService.getScriptCache().put(
+        cacheKey,
+        res.access_token,
+        Math.min(ttl, MAX_CACHE_TTL)
+      );
+    }
+
+    return res.access_token;
+  }
+
+  /**
+   * Returns the SourceAuth instance, initializing it if it does not exist yet.
+   *
+   * @returns {!SourceAuth}
+   */
+  static getInstance() {
+    if (!this.instance) {
+      this.instance = new SourceAuth();
+    }
+
+    return this.instance;
+  }
+}
@@ -15,18 +15,29 @@
  */
 
 import { CONFIG, GLOBALCTX } from './config';
-import { ApiHelper } from './helpers/api';
+import { ApiHelper, ApiRequest } from './helpers/api';
+import { ChangeLog } from './helpers/change-log';
+import { Condition } from './helpers/condition';
+import { ConfigSheet } from './helpers/config-sheet';
 import { DynamicColumnHeaders } from './helpers/dynamic-column-headers';
+import { FlapProtection, FlapSettings } from './helpers/flap-protection';
 import { JPath } from './helpers/jpath';
+import { KillSwitch } from './helpers/kill-switch';
+import { RuleColumns } from './helpers/rule-columns';
+import { RunProgress, RunState } from './helpers/run-state';
+import { Schedule, ScheduleCheck } from './helpers/schedule';
+import { Secrets } from './helpers/secrets';
 import { SheetsService } from './helpers/sheets';
+import { SourceAuth } from './helpers/source-auth';
 import { Utils } from './helpers/utils';
-import { TargetAgent } from './target-agents/base';
+import { Evaluation, TargetAgent } from './target-agents/base';
 import { AVAILABLE_AGENTS } from './target-agents/index';
 
 enum MODE {
   FETCH = 0,
   SYNC = 1,
   FETCH_AND_SYNC = 2,
+  DRY_RUN = 3,
 }
 
 /** @type {Record<string, TargetAgent>} */
@@ -43,7 +54,13 @@ function onOpen() {
     .addItem('Fetch', 'fetch')
     .addItem('Sync', 'sync')
     .addItem('FetchAndSync', 'fetchAndSync')
+    .addItem('Dry run', 'dryRun')
     .addItem('Validate', 'validate')
+    .addSeparator()
+    .addItem('Manage secrets', 'manageSecrets')
+    .addSeparator()
+    .addItem('Stop all syncs', 'stopAllSyncs')
+    .addItem('Enable syncs', 'enableSyncs')
     .addToUi();
 }
 
@@ -58,6 +75,69 @@ function setup() {
   PropertiesService.getScriptProperties().setProperty('spreadsheetId', ssId);
 }
 
+/**
+ * Add, update or delete a secret which can be referenced in
+ * 'source:' and 'target:' cells via '{{secret:NAME}}'.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function manageSecrets() {
+  const ui = SpreadsheetApp.getUi();
+  const names = Secrets.list();
+
+  const nameResponse = ui.prompt(
+    'Manage secrets',
+    `Stored secrets: ${names.length ? names.join(', ') : 'none'}\n\n` +
+      'Enter the name of the secret to add, update or delete:',
+    ui.ButtonSet.OK_CANCEL
+  );
+  const name = nameResponse.getResponseText().trim();
+
+  if (nameResponse.getSelectedButton() !== ui.Button.OK || !name) return;
+
+  if (!/^[\w.-]+$/.test(name)) {
+    ui.alert('Secret names may only contain letters, digits, _, . and -');
+    return;
+  }
+
+  const valueResponse = ui.prompt(
+    `Secret '${name}'`,
+    'Enter the secret value (leave empty to delete the secret):',
+    ui.ButtonSet.OK_CANCEL
+  );
+
+  if (valueResponse.getSelectedButton() !== ui.Button.OK) return;
+
+  const value = valueResponse.getResponseText();
+
+  if (value) {
+    Secrets.set(name, value);
+    ui.alert(`Secret stored. Reference it via {{secret:${name}}}`);
+  } else {
+    Secrets.delete(name);
+    ui.alert(`Secret '${name}' deleted.`);
+  }
+}
+
+/**
+ * Activate the kill switch to stop all running and scheduled syncs.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function stopAllSyncs() {
+  KillSwitch.activate();
+  SpreadsheetApp.getUi().alert(
+    'All syncs stopped. Use "Enable syncs" to allow them again.'
+  );
+}
+
+/**
+ * Deactivate the kill switch.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function enableSyncs() {
+  KillSwitch.deactivate();
+  SpreadsheetApp.getUi().alert('Syncs enabled.');
+}
+
 /**
  * Call main() with mode 'FETCH'.
  */
@@ -82,78 +162,242 @@ function fetchAndSync() {
   main(MODE.FETCH_AND_SYNC);
 }
 
+/**
+ * Call main() with mode 'DRY_RUN'.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function dryRun() {
+  main(MODE.DRY_RUN);
+}
+
+/**
+ * Continue a run which was stopped before hitting the execution time limit.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function resume() {
+  const progress = RunState.load();
+  RunState.deleteContinuationTriggers();
+
+  if (!progress) return;
+
+  main(progress.mode, progress);
+}
+
 /**
  * Parse all rules in the feed and, according to mode,
  * fetches data from API and/or syncs state with target, respectively.
+ * Saves its progress and schedules a continuation if the execution time
+ * limit is about to be reached.
+ *
+ * @param {string} mode
+ * @param {?RunProgress} progress Progress of the run to continue
+ */
+function main(mode: MODE, progress?: RunProgress) {
+  const startTime = Date.now();
+  const runId = progress?.runId ?? Utilities.getUuid();
+
+  // A new run supersedes any unfinished one
+  if (!progress) {
+    RunState.clear();
+  }
+
+  if (isStopped(mode)) {
+    console.log('All syncs are stopped by the kill switch.');
+    RunState.clear();
+    return;
+  }
+
+  ConfigSheet.load();
+
+  const sheetNames = getRuleSheetNames();
+  const startSheet = progress
+    ? Math.max(sheetNames.indexOf(progress.sheetName), 0)
+    : 0;
+
+  for (const sheetName of sheetNames.slice(startSheet)) {
+    const startIndex =
+      sheetName === progress?.sheetName ? progress.rowIndex : 0;
+
+    if (!processSheet(sheetName, mode, runId, startTime, startIndex)) {
+      return;
+    }
+  }
+
+  RunState.clear();
+}
+
+/**
+ * Get the names of all rule sheets. IFTTA's own sheets are never rule
+ * sheets, even if they match the pattern.
+ *
+ * @returns {string[]}
+ */
+function getRuleSheetNames() {
+  return SheetsService.getInstance().getSheetNames(CONFIG.rules.sheetName, [
+    CONFIG.configSheetName,
+    CONFIG.changeLog.sheetName,
+  ]);
+}
+
+/**
+ * Get the reserved columns of a rule sheet.
+ * Errors are logged, so a sheet without rules doesn't stop the whole run.
+ *
+ * @param {string} sheetName
+ * @param {string[]} columnHeaders
+ * @returns {RuleColumns|undefined} Undefined if reserved columns are missing
+ */
+function getRuleColumns(sheetName: string, columnHeaders: string[]) {
+  try {
+    return new RuleColumns(columnHeaders);
+  } catch (err) {
+    console.error(`Skipping sheet '${sheetName}': ${(err as Error).message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Process all rules of a sheet according to mode.
  *
+ * @param {string} sheetName
  * @param {string} mode
+ * @param {string} runId
+ * @param {number} startTime Start of the execution in milliseconds
+ * @param {number} startIndex Row index (without header) to start at
+ * @returns {boolean} False if the run has been suspended for continuation
  */
-function main(mode: MODE) {
+function processSheet(
+  sheetName: string,
+  mode: MODE,
+  runId: string,
+  startTime: number,
+  startIndex: number
+) {
+  console.log(`Processing sheet '${sheetName}'`);
+
   // Get all rows from the sheet
   const rows = SheetsService.getInstance().getRangeData(
-    CONFIG.rules.sheetName,
-    1,
+    sheetName,
+    CONFIG.rules.startRow,
     1
   );
 
-  if (rows.length === 0) {
-    return;
+  // Skip sheets without any rules
+  if (rows.length < 2) {
+    return true;
   }
 
   // Extract and parse column headers
   const columnHeaders = rows.shift() as string[];
   const columnHeaderHelper = new DynamicColumnHeaders(columnHeaders);
+  const ruleColumns = getRuleColumns(sheetName, columnHeaders);
+
+  // Skip sheets which match the pattern but don't contain rules
+  if (!ruleColumns) {
+    return true;
+  }
+
+  // Flap protection state is kept per rule name
+  const ruleNames = rows.map(row => ruleColumns.getValue(row, 'ruleName'));
 
   const apiHelper = new ApiHelper();
+  const isDryRun = mode === MODE.DRY_RUN;
+  const shouldFetch =
+    mode === MODE.FETCH ||
+    mode === MODE.FETCH_AND_SYNC ||
+    mode === MODE.DRY_RUN;
+
+  // Fetch sources of all due rows concurrently upfront.
+  // Dry runs evaluate every rule regardless of its interval.
+  if (shouldFetch) {
+    try {
+      apiHelper.prefetch(
+        rows
+          .slice(startIndex)
+          .filter(row => isEnabled(row, ruleColumns))
+          .flatMap(row => {
+            try {
+              const schedule = getSchedule(row, ruleColumns);
+
+              // Forced evaluations don't need any source data
+              if (
+                (!isDryRun && !schedule.due) ||
+                schedule.forcedEvaluation !== undefined
+              ) {
+                return [];
+              }
+
+              return Object.values(getSourceRequests(row, columnHeaderHelper));
+            } catch (err) {
+              // Errors are reported when the row itself is processed
+              return [];
+            }
+          })
+      );
+    } catch (err) {
+      // Sources will be fetched one by one instead
+      console.log(`Prefetching failed: ${err}`);
+    }
+  }
 
-  // Handle every row
-  rows.forEach((row: string[], index: number) => {
-    console.log(`Processing row ${index + 1}/${rows.length}`);
+  const processRow = (row: string[], index: number) => {
+    console.log(`Processing row ${index + 1}/${rows.length} (run ${runId})`);
 
-    // Check if update is due
-    const lastUpdate = Number(row[CONFIG.rules.cols.lastUpdate]);
-    const updateInterval = Number(row[CONFIG.rules.cols.updateInterval]);
     let status = '';
 
-    if (
-      updateInterval > 0 &&
-      Date.now() < lastUpdate + updateInterval * 3600 * 1000
-    ) {
+    if (!isEnabled(row, ruleColumns)) {
+      console.log('Rule disabled.');
+      return;
+    }
+
+    let schedule: ScheduleCheck;
+
+    try {
+      schedule = getSchedule(row, ruleColumns);
+    } catch (err) {
+      SheetsService.getInstance().setCellValue(
+        index + CONFIG.rules.startRow + 1,
+        ruleColumns.getIndex('status') + 1,
+        `${Utils.getCurrentDateString()}: ${err}`,
+        sheetName
+      );
+      return;
+    }
+
+    if (!isDryRun && !schedule.due) {
       console.log('Update not due.');
       return;
     }
 
     try {
-      // Fetch
-      if (mode === MODE.FETCH || mode === MODE.FETCH_AND_SYNC) {
+      // Fetch (not needed if the schedule forces the evaluation)
+      if (shouldFetch && schedule.forcedEvaluation === undefined) {
         console.log('Fetching data from API...');
 
-        const sourceParams = columnHeaderHelper.getMappedValues(
-          row,
-          CONFIG.sourceNamespace
-        );
+        const sourceRequests = getSourceRequests(row, columnHeaderHelper);
 
-        for (const group in sourceParams) {
-          const source = sourceParams[group];
+        for (const group in sourceRequests) {
+          const source = sourceRequests[group];
 
+          // Sources are only read from, so results are cached for any method
           const res = apiHelper.callApi(
             source.url,
             source.headers,
-            source.params
+            source.queryParams,
+            source.body,
+            source.method,
+            source.contentType,
+            true,
+            source.cacheTtl
           );
 
           row = updateRowWithResultData(columnHeaders, row, res, group);
 
-          const resultsHeaderStartCol =
-            columnHeaderHelper.getFirstColWithNamespace(CONFIG.resultNamespace);
-
-          const results = row.slice(resultsHeaderStartCol);
-
-          SheetsService.getInstance().setValuesInDefinedRange(
-            CONFIG.rules.sheetName,
-            index + CONFIG.rules.startRow + 1,
-            resultsHeaderStartCol + 1,
-            [results]
+          writeResults(
+            sheetName,
+            row,
+            index,
+            columnHeaderHelper.getColsWithNamespace(CONFIG.resultNamespace)
           );
 
           status = `Fetched (${Utils.getCurrentDateString()})`;
@@ -161,13 +405,15 @@ function main(mode: MODE) {
       }
 
       // Sync
-      if (mode === MODE.SYNC || mode === MODE.FETCH_AND_SYNC) {
+      if (
+        mode === MODE.SYNC ||
+        mode === MODE.FETCH_AND_SYNC ||
+        mode === MODE.DRY_RUN
+      ) {
         console.log('Synchronizing...');
-        const evaluation = SheetsService.getInstance().getCellValue(
-          CONFIG.rules.sheetName,
-          index + 1 + CONFIG.rules.startRow,
-          CONFIG.rules.cols.activationFormula + 1
-        );
+        const evaluation =
+          schedule.forcedEvaluation ??
+          getEvaluation(sheetName, row, index, ruleColumns, columnHeaderHelper);
 
         if (evaluation === '') return;
 
@@ -177,38 +423,330 @@ function main(mode: MODE) {
           false
         );
 
-        const targetAgent = getTargetAgent(row[CONFIG.rules.cols.targetAgent]);
+        // Hold back evaluations which are not yet stable enough
+        const ruleSettings = columnHeaderHelper.getMappedValues(
+          row,
+          CONFIG.ruleNamespace,
+          false
+        ) as FlapSettings;
+        // Forced evaluations are applied right away
+        const isFlapProtected =
+          schedule.forcedEvaluation === undefined &&
+          FlapProtection.isEnabled(ruleSettings);
+        const flapKey = isFlapProtected
+          ? getFlapKey(sheetName, ruleNames, index)
+          : '';
+        const flapCheck = isFlapProtected
+          ? FlapProtection.check(
+              FlapProtection.load(flapKey),
+              evaluation,
+              ruleSettings
+            )
+          : undefined;
+
+        if (flapCheck && !flapCheck.apply) {
+          status = `Held (${Utils.getCurrentDateString()}): ${
+            flapCheck.reason
+          }`;
+
+          if (!isDryRun) {
+            FlapProtection.save(flapKey, flapCheck.state);
+            updateLastUpdate(sheetName, index, ruleColumns);
+          }
+          return;
+        }
+
+        const targetAgent = getTargetAgent(
+          ruleColumns.getValue(row, 'targetAgent')
+        );
+        targetAgent.setDryRun(isDryRun);
+
+        ChangeLog.getInstance().setContext(
+          ruleColumns.getValue(row, 'ruleName'),
+          ruleColumns.getValue(row, 'targetAgent'),
+          evaluation
+        );
 
         targetAgent.process(
-          row[CONFIG.rules.cols.targetId],
-          row[CONFIG.rules.cols.targetIdType],
-          row[CONFIG.rules.cols.targetAction],
+          ruleColumns.getValue(row, 'targetId'),
+          ruleColumns.getValue(row, 'targetIdType'),
+          ruleColumns.getValue(row, 'targetAction'),
           evaluation,
           params
         );
 
-        status = `Synchronized (${Utils.getCurrentDateString()})`;
+        if (isDryRun) {
+          const changes = targetAgent.getPlannedChanges();
+          status = `Dry run (${Utils.getCurrentDateString()}): ${
+            changes.length ? changes.join('; ') : 'No changes'
+          }`;
+          return;
+        }
 
-        // Update timestamp
-        SheetsService.getInstance().setCellValue(
-          index + CONFIG.rules.startRow + 1,
-          CONFIG.rules.cols.lastUpdate + 1,
-          String(Date.now()),
-          CONFIG.rules.sheetName
-        );
+        if (flapCheck) {
+          FlapProtection.save(flapKey, flapCheck.state);
+        }
+
+        status = `Synchronized (${Utils.getCurrentDateString()})`;
+        updateLastUpdate(sheetName, index, ruleColumns);
       }
     } catch (err) {
       status = `${Utils.getCurrentDateString()}: ${err}`;
     } finally {
+      // Persist mutations, even those made before an error occurred
+      ChangeLog.getInstance().flush();
+
       // Update status
       SheetsService.getInstance().setCellValue(
         index + CONFIG.rules.startRow + 1,
-        CONFIG.rules.cols.status + 1,
+        ruleColumns.getIndex('status') + 1,
         status,
-        CONFIG.rules.sheetName
+        sheetName
       );
     }
-  });
+  };
+
+  // Handle every row
+  for (let index = startIndex; index < rows.length; index++) {
+    // The kill switch may be activated while a run is in progress
+    if (isStopped(mode)) {
+      console.log('All syncs are stopped by the kill switch.');
+      RunState.clear();
+      return false;
+    }
+
+    if (Date.now() - startTime > CONFIG.limits.maxExecutionTime) {
+      console.log(
+        `Execution time limit reached, continuing at row ${
+          index + 1
+        } of '${sheetName}' later`
+      );
+      RunState.save({ runId, mode, sheetName, rowIndex: index });
+      RunState.scheduleContinuation();
+      return false;
+    }
+
+    processRow(rows[index], index);
+  }
+
+  return true;
+}
+
+/**
+ * Get the key flap protection state of a rule is stored under.
+ * Rows move when others are inserted, so rules are identified by their
+ * name, which has to be unique within the sheet.
+ *
+ * @param {string} sheetName
+ * @param {string[]} ruleNames Rule names of all rows of the sheet
+ * @param {number} index Row index (without header)
+ * @returns {string}
+ * @throws {Error} If the rule name is missing or not unique
+ */
+function getFlapKey(sheetName: string, ruleNames: string[], index: number) {
+  const ruleName = String(ruleNames[index] ?? '').trim();
+
+  if (!ruleName) {
+    throw new Error('Flap protection requires a Rule Name');
+  }
+
+  const count = ruleNames.filter(
+    name => String(name ?? '').trim() === ruleName
+  ).length;
+
+  if (count > 1) {
+    throw new Error(
+      `Flap protection requires a unique Rule Name, '${ruleName}' is used by ${count} rules`
+    );
+  }
+
+  return `${sheetName}:${ruleName}`;
+}
+
+/**
+ * Check if the kill switch prevents a run in the given mode.
+ * Fetching and dry runs never mutate any target, so they are not stopped.
+ *
+ * @param {string} mode
+ * @returns {boolean}
+ */
+function isStopped(mode: MODE) {
+  return (
+    (mode === MODE.SYNC || mode === MODE.FETCH_AND_SYNC) &&
+    KillSwitch.isActive()
+  );
+}
+
+/**
+ * Check if a rule is enabled. Rules without an 'Enabled' column or with
+ * an empty cell are enabled.
+ *
+ * @param {string[]} row
+ * @param {RuleColumns} ruleColumns
+ * @returns {boolean}
+ */
+function isEnabled(row: string[], ruleColumns: RuleColumns) {
+  const enabled = ruleColumns.getValue(row, 'enabled');
+
+  return !['false', 'no', 'off', '0'].includes(
+    String(enabled ?? '')
+      .trim()
+      .toLowerCase()
+  );
+}
+
+/**
+ * Check if a rule is due for update according to its update interval,
+ * which may also be a cron expression or an active time window.
+ *
+ * @param {string[]} row
+ * @param {RuleColumns} ruleColumns
+ * @returns {ScheduleCheck}
+ */
+function getSchedule(row: string[], ruleColumns: RuleColumns) {
+  const updateInterval = ruleColumns.getValue(row, 'updateInterval');
+
+  return Schedule.check(
+    updateInterval === '' ? CONFIG.rules.defaultUpdateInterval : updateInterval,
+    Number(ruleColumns.getValue(row, 'lastUpdate')),
+    Date.now(),
+    Session.getScriptTimeZone()
+  );
+}
+
+/**
+ * Get the evaluation of a rule, either from its condition or,
+ * if it has none, from its Activation Formula.
+ * Conditions are evaluated in code on the current result values, so they
+ * don't depend on the sheet recalculating.
+ *
+ * @param {string} sheetName
+ * @param {string[]} row
+ * @param {number} index Row index (without header)
+ * @param {RuleColumns} ruleColumns
+ * @param {DynamicColumnHeaders} columnHeaderHelper
+ * @returns {Evaluation}
+ */
+function getEvaluation(
+  sheetName: string,
+  row: string[],
+  index: number,
+  ruleColumns: RuleColumns,
+  columnHeaderHelper: DynamicColumnHeaders
+): Evaluation {
+  const condition = String(ruleColumns.getValue(row, 'condition') ?? '').trim();
+
+  if (condition) {
+    return (
+      Condition.evaluate(condition, {
+        [CONFIG.resultNamespace]: columnHeaderHelper.getMappedValues(
+          row,
+          CONFIG.resultNamespace
+        ),
+      }) ?? ''
+    );
+  }
+
+  return SheetsService.getInstance().getCellValue(
+    sheetName,
+    index + CONFIG.rules.startRow + 1,
+    ruleColumns.getIndex('activationFormula') + 1
+  );
+}
+
+/**
+ * Get the API requests for all source groups of a row,
+ * including any authentication set via 'source:auth.*'.
+ *
+ * @param {string[]} row
+ * @param {DynamicColumnHeaders} columnHeaderHelper
+ * @returns {Record<string, ApiRequest>}
+ */
+function getSourceRequests(
+  row: string[],
+  columnHeaderHelper: DynamicColumnHeaders
+) {
+  const sourceParams = columnHeaderHelper.getMappedValues(
+    row,
+    CONFIG.sourceNamespace
+  );
+  const requests: Record<string, ApiRequest> = {};
+
+  for (const group in sourceParams) {
+    const source = sourceParams[group];
+
+    if (!source.url) continue;
+
+    const method = String(source.method || 'get').toLowerCase();
+
+    const request: ApiRequest = {
+      url: source.url,
+      headers: source.headers,
+      queryParams: source.params,
+      // Ignore body columns left over for GET requests
+      body: method === 'get' ? undefined : source.body,
+      method,
+      contentType: source.contentType || 'application/json',
+      cacheTtl: Number(source.cacheTtl) || 0,
+    };
+
+    requests[group] = source.auth?.type
+      ? SourceAuth.getInstance().apply(source.auth, request)
+      : request;
+  }
+
+  return requests;
+}
+
+/**
+ * Write result values of a row back to the sheet.
+ * Only result columns are written, as other columns may hold formulas.
+ *
+ * @param {string} sheetName
+ * @param {string[]} row
+ * @param {number} index Row index (without header)
+ * @param {number[]} resultCols Indexes of the result columns
+ */
+function writeResults(
+  sheetName: string,
+  row: string[],
+  index: number,
+  resultCols: number[]
+) {
+  // Write adjacent result columns in one go
+  let start = 0;
+
+  for (let i = 1; i <= resultCols.length; i++) {
+    if (i === resultCols.length || resultCols[i] !== resultCols[i - 1] + 1) {
+      SheetsService.getInstance().setValuesInDefinedRange(
+        sheetName,
+        index + CONFIG.rules.startRow + 1,
+        resultCols[start] + 1,
+        [row.slice(resultCols[start], resultCols[i - 1] + 1)]
+      );
+      start = i;
+    }
+  }
+}
+
+/**
+ * Set the last update timestamp of a rule to now.
+ *
+ * @param {string} sheetName
+ * @param {number} index Row index (without header)
+ * @param {RuleColumns} ruleColumns
+ */
+function updateLastUpdate(
+  sheetName: string,
+  index: number,
+  ruleColumns: RuleColumns
+) {
+  SheetsService.getInstance().setCellValue(
+    index + CONFIG.rules.startRow + 1,
+    ruleColumns.getIndex('lastUpdate') + 1,
+    String(Date.now()),
+    sheetName
+  );
 }
 
 /**
@@ -217,54 +755,76 @@ function main(mode: MODE) {
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 function validate() {
   let errors: string[] = [];
+  let total = 0;
 
-  // Get all rows from the sheet
-  const rows = SheetsService.getInstance().getRangeData(
-    CONFIG.rules.sheetName,
-    1,
-    1
-  );
+  ConfigSheet.load();
 
-  // Extract and parse column headers
-  const columnHeaders = rows.shift() as string[];
-  const columnHeaderHelper = new DynamicColumnHeaders(columnHeaders);
+  for (const sheetName of getRuleSheetNames()) {
+    // Get all rows from the sheet
+    const rows = SheetsService.getInstance().getRangeData(
+      sheetName,
+      CONFIG.rules.startRow,
+      1
+    );
 
-  // Handle every row
-  rows.forEach((row: string[], index: number) => {
-    console.log(`Validating row ${index + 1}/${rows.length}`);
-    try {
-      const evaluation = SheetsService.getInstance().getCellValue(
-        CONFIG.rules.sheetName,
-        index + CONFIG.rules.startRow + 1,
-        CONFIG.rules.cols.activationFormula + 1
-      );
+    if (rows.length < 2) continue;
 
-      if (evaluation === '') return;
+    // Extract and parse column headers
+    const columnHeaders = rows.shift() as string[];
+    const columnHeaderHelper = new DynamicColumnHeaders(columnHeaders);
+    const ruleColumns = getRuleColumns(sheetName, columnHeaders);
 
-      const params = columnHeaderHelper.getMappedValues(
-        row,
-        CONFIG.targetNamespace,
-        false
-      );
+    if (!ruleColumns) continue;
 
-      errors = errors.concat(
-        getTargetAgent(row[CONFIG.rules.cols.targetAgent]).validate(
-          row[CONFIG.rules.cols.targetId],
-          row[CONFIG.rules.cols.targetIdType],
-          row[CONFIG.rules.cols.targetAction],
-          evaluation,
-          params
-        )
+    // Handle every row
+    rows.forEach((row: string[], index: number) => {
+      console.log(
+        `Validating row ${index + 1}/${rows.length} of '${sheetName}'`
       );
-    } catch (err) {
-      errors.push(JSON.stringify((err as Error).message));
-    }
-  });
+
+      if (!isEnabled(row, ruleColumns)) {
+        console.log('Rule disabled.');
+        return;
+      }
+
+      total++;
+
+      try {
+        const evaluation = getEvaluation(
+          sheetName,
+          row,
+          index,
+          ruleColumns,
+          columnHeaderHelper
+        );
+
+        if (evaluation === '') return;
+
+        const params = columnHeaderHelper.getMappedValues(
+          row,
+          CONFIG.targetNamespace,
+          false
+        );
+
+        errors = errors.concat(
+          getTargetAgent(ruleColumns.getValue(row, 'targetAgent')).validate(
+            ruleColumns.getValue(row, 'targetId'),
+            ruleColumns.getValue(row, 'targetIdType'),
+            ruleColumns.getValue(row, 'targetAction'),
+            evaluation,
+            params
+          )
+        );
+      } catch (err) {
+        errors.push(JSON.stringify((err as Error).message));
+      }
+    });
+  }
 
   // Log results
   console.log();
   console.log('### Validation Results ###');
-  console.log(`Valid rows: ${rows.length - errors.length}/${rows.length}`);
+  console.log(`Valid rows: ${total - errors.length}/${total}`);
 
   if (errors.length) {
     console.log();
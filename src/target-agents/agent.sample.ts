@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { TargetAgent } from './base';
+import { Evaluation, TargetAgent } from './base';
 
 interface Parameters {
   token: string; // required
@@ -31,14 +31,14 @@ export class SampleAgent extends TargetAgent {
    * @param {string} identifier
    * @param {string} type
    * @param {string} action
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    */
   process(
     identifier: string,
     type: string,
     action: string,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Object
   ) {
     // Check for missing parameters
@@ -51,7 +51,7 @@ export class SampleAgent extends TargetAgent {
    * @param {string} identifier
    * @param {string} type
    * @param {string} action
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    * @returns {string[]}‚
    */
@@ -59,7 +59,7 @@ export class SampleAgent extends TargetAgent {
     identifier: string,
     type: string,
     action: string,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Object
   ) {
     return [];
@@ -16,10 +16,17 @@
 
 import { ApiHelper } from '../helpers/api';
 
+// Value of the Activation Formula or Condition, e.g. TRUE, 1.3 or 'B'
+export type Evaluation = boolean | number | string;
+
 export class TargetAgent extends ApiHelper {
   public static friendlyName: string = '';
   protected requiredParameters: string[] = [];
+  // OAuth scopes required for service account authentication
+  protected scopes: string[] = [];
   static instance: TargetAgent;
+  protected dryRun = false;
+  private plannedChanges: string[] = [];
 
   protected constructor() {
     super();
@@ -29,7 +36,7 @@ export class TargetAgent extends ApiHelper {
     identifier: string,
     type: string,
     action: string,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Object
   ) {
     throw new Error('process() method not implemented.');
@@ -39,12 +46,66 @@ export class TargetAgent extends ApiHelper {
     identifier: string,
     type: string,
     action: string,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Object
   ): string[] {
     throw new Error('validate() method not implemented.');
   }
 
+  /**
+   * Enable or disable dry-run mode.
+   * In dry-run mode mutations are reported instead of being sent.
+   *
+   * @param {boolean} dryRun
+   */
+  setDryRun(dryRun: boolean) {
+    this.dryRun = dryRun;
+    this.plannedChanges = [];
+  }
+
+  /**
+   * Get the mutations reported since dry-run mode was last set.
+   *
+   * @returns {string[]}
+   */
+  getPlannedChanges() {
+    return this.plannedChanges;
+  }
+
+  /**
+   * Report a mutation which would have been made if not in dry-run mode.
+   *
+   * @param {string} change
+   */
+  protected reportPlannedChange(change: string) {
+    console.log(`[Dry run] ${change}`);
+    this.plannedChanges.push(change);
+  }
+
+  /**
+   * Interpret an evaluation as on or off.
+   * Strings like 'FALSE', '0' or 'PAUSED' and the number 0 are off.
+   *
+   * @param {Evaluation} evaluation
+   * @returns {boolean}
+   */
+  protected toBoolean(evaluation: Evaluation) {
+    if (typeof evaluation === 'string') {
+      return ![
+        '',
+        'false',
+        '0',
+        'no',
+        'off',
+        'paused',
+        'inactive',
+        'disabled',
+      ].includes(evaluation.trim().toLowerCase());
+    }
+
+    return Boolean(evaluation);
+  }
+
   /**
    * Find missing required parameters exist in object.
    *
@@ -15,7 +15,8 @@
  */
 
 import { Auth } from '../helpers/auth';
-import { TargetAgent } from './base';
+import { ChangeLog } from '../helpers/change-log';
+import { Evaluation, TargetAgent } from './base';
 
 export enum DV360_ENTITY_STATUS {
   ACTIVE = 'ENTITY_STATUS_ACTIVE',
@@ -48,6 +49,7 @@ export class DV360 extends TargetAgent {
   authToken?: string;
   baseUrl: string;
   requiredParameters = ['advertiserId'];
+  scopes = ['https://www.googleapis.com/auth/display-video'];
 
   /**
    * Set the DV360 wrapper configuration
@@ -67,21 +69,21 @@ export class DV360 extends TargetAgent {
    * @param {string} identifier
    * @param {DV360_ENTITY_TYPE} type
    * @param {DV360_ACTION} action
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    */
   process(
     identifier: string,
     type: DV360_ENTITY_TYPE,
     action: DV360_ACTION,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Parameters
   ) {
     // Check for missing parameters
     this.ensureRequiredParameters(params);
 
     const auth = new Auth(params.serviceAccount ?? undefined);
-    this.authToken = auth.getAuthToken();
+    this.authToken = auth.getAuthToken(this.scopes);
 
     if (action === DV360_ACTION.TOGGLE) {
       return this.handleToggle(identifier, type, evaluation, params);
@@ -97,19 +99,21 @@ export class DV360 extends TargetAgent {
    *
    * @param {string} identifier
    * @param {DV360_ENTITY_TYPE} type
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    */
   handleToggle(
     identifier: string,
     type: DV360_ENTITY_TYPE,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Parameters
   ) {
+    const status = this.toBoolean(evaluation);
+
     if (type === DV360_ENTITY_TYPE.LINE_ITEM) {
-      this.setLineItemStatus(params.advertiserId, identifier, evaluation);
+      this.setLineItemStatus(params.advertiserId, identifier, status);
     } else if (type === DV360_ENTITY_TYPE.INSERTION_ORDER) {
-      this.setInsertionOrderStatus(params.advertiserId, identifier, evaluation);
+      this.setInsertionOrderStatus(params.advertiserId, identifier, status);
     }
   }
 
@@ -119,7 +123,7 @@ export class DV360 extends TargetAgent {
    * @param {string} identifier
    * @param {DV360_ENTITY_TYPE} type
    * * @param {DV360_ACTION} action
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    * @returns {string[]}
    */
@@ -127,14 +131,14 @@ export class DV360 extends TargetAgent {
     identifier: string,
     type: DV360_ENTITY_TYPE,
     action: DV360_ACTION,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Parameters
   ) {
     // Check for missing parameters
     this.ensureRequiredParameters(params);
 
     const auth = new Auth(params.serviceAccount ?? undefined);
-    this.authToken = auth.getAuthToken();
+    this.authToken = auth.getAuthToken(this.scopes);
 
     let status;
     const errors: string[] = [];
@@ -145,9 +149,11 @@ export class DV360 extends TargetAgent {
       status = this.isInsertionOrderActive(params.advertiserId, identifier);
     }
 
-    if (evaluation !== status) {
+    if (this.toBoolean(evaluation) !== status) {
       errors.push(
-        `Status for ${identifier} (${type}) should be ${evaluation} but is ${status}`
+        `Status for ${identifier} (${type}) should be ${this.toBoolean(
+          evaluation
+        )} but is ${status}`
       );
     }
 
@@ -192,11 +198,33 @@ export class DV360 extends TargetAgent {
       entityStatus: newStatus,
     };
 
+    const oldStatus =
+      this.getEntity(advertiserId, entityId, entity)?.entityStatus ?? '';
+
+    if (oldStatus === newStatus) {
+      console.log(`Skipping ${entityId}, already '${newStatus}'`);
+      return;
+    }
+
+    if (this.dryRun) {
+      this.reportPlannedChange(`Set status of ${entityId} to ${newStatus}`);
+      return;
+    }
+
     console.log(`Setting status of ${entityId} to ${newStatus}`);
 
     const url = `${this.baseUrl}/advertisers/${advertiserId}/${entity}/${entityId}?updateMask=entityStatus`;
 
     this.fetchUrl(url, 'patch', updateMask);
+
+    // The cached entity no longer reflects the live status
+    this.clearCache();
+
+    ChangeLog.getInstance().record(
+      `advertisers/${advertiserId}/${entity}/${entityId}`,
+      oldStatus,
+      newStatus
+    );
   }
 
   /**
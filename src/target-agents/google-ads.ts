@@ -15,8 +15,14 @@
  */
 
 import { Auth, ServiceAccount } from '../helpers/auth';
-import { TargetAgent } from './base';
-import { CampaignDao, GoogleAdsApiCampaignDaoImpl } from '../dao/campaign_cvr';
+import { ChangeLog } from '../helpers/change-log';
+import { Evaluation, TargetAgent } from './base';
+import { GOOGLE_ADS_SCOPE } from '../dao/google_ads_client';
+import {
+  CampaignDao,
+  EmptyCampaignDaoImpl,
+  GoogleAdsApiCampaignDaoImpl,
+} from '../dao/campaign_cvr';
 
 // Lower bound of the CVR adjustment.  Ie, a CVR can not lower a conversion
 // beyond 50% less than it's original value.
@@ -26,6 +32,23 @@ const CVR_ADJUSTMENT_LOWER_BOUND = -0.5;
 // beyond 1000% more than it's original value.
 const CVR_ADJUSTMENT_UPPER_BOUND = 10.0;
 
+// Maximum number of operations sent in a single mutate request.
+const MAX_MUTATE_OPERATIONS = 1000;
+
+// Budget amounts must be multiples of the minimum currency unit (0.01).
+const BUDGET_MICROS_STEP = 10000;
+
+// Range of bid modifiers, ie. -90% to +900% (-100% only for devices).
+const BID_MODIFIER_LOWER_BOUND = 0.1;
+const BID_MODIFIER_UPPER_BOUND = 10.0;
+
+const AD_SCHEDULE_MINUTES: Record<string, string> = {
+  '00': 'ZERO',
+  '15': 'FIFTEEN',
+  '30': 'THIRTY',
+  '45': 'FORTY_FIVE',
+};
+
 export enum GOOGLE_ADS_SELECTOR_TYPE {
   AD_ID = 'AD_ID',
   AD_LABEL = 'AD_LABEL',
@@ -33,8 +56,88 @@ export enum GOOGLE_ADS_SELECTOR_TYPE {
   AD_GROUP_LABEL = 'AD_GROUP_LABEL',
   CAMPAIGN_LABEL = 'CAMPAIGN_LABEL',
   CAMPAIGN_ID = 'CAMPAIGN_ID',
+  KEYWORD_ID = 'KEYWORD_ID',
+  KEYWORD_LABEL = 'KEYWORD_LABEL',
+  ASSET_GROUP_ID = 'ASSET_GROUP_ID',
+  ASSET_GROUP_NAME = 'ASSET_GROUP_NAME',
+  AD_NAME = 'AD_NAME',
+  AD_GROUP_NAME = 'AD_GROUP_NAME',
+  CAMPAIGN_NAME = 'CAMPAIGN_NAME',
+  AD_QUERY = 'AD_QUERY',
+  AD_GROUP_QUERY = 'AD_GROUP_QUERY',
+  CAMPAIGN_QUERY = 'CAMPAIGN_QUERY',
+  KEYWORD_QUERY = 'KEYWORD_QUERY',
+  ASSET_GROUP_QUERY = 'ASSET_GROUP_QUERY',
+  CUSTOMER_ID = 'CUSTOMER_ID',
+}
+
+export enum GOOGLE_ADS_NAME_MATCH {
+  EXACT = 'exact',
+  CONTAINS = 'contains',
+  REGEX = 'regex',
+}
+
+interface QueryableEntity {
+  resource: string;
+  entityName: string;
+  operationType: string;
+  nameField: string;
+  // Restricts the resource to the entity, e.g. keywords among criteria
+  condition?: string;
 }
 
+const QUERYABLE_ENTITIES: Record<string, QueryableEntity> = {
+  ad: {
+    resource: 'ad_group_ad',
+    entityName: 'adGroupAd',
+    operationType: 'adGroupAdOperation',
+    nameField: 'ad_group_ad.ad.name',
+  },
+  adGroup: {
+    resource: 'ad_group',
+    entityName: 'adGroup',
+    operationType: 'adGroupOperation',
+    nameField: 'ad_group.name',
+  },
+  campaign: {
+    resource: 'campaign',
+    entityName: 'campaign',
+    operationType: 'campaignOperation',
+    nameField: 'campaign.name',
+  },
+  keyword: {
+    resource: 'ad_group_criterion',
+    entityName: 'adGroupCriterion',
+    operationType: 'adGroupCriterionOperation',
+    nameField: 'ad_group_criterion.keyword.text',
+    condition:
+      "ad_group_criterion.type = 'KEYWORD' AND ad_group_criterion.negative = FALSE",
+  },
+  assetGroup: {
+    resource: 'asset_group',
+    entityName: 'assetGroup',
+    operationType: 'assetGroupOperation',
+    nameField: 'asset_group.name',
+  },
+};
+
+// Selectors picking entities by name
+const NAME_SELECTORS: Partial<Record<GOOGLE_ADS_SELECTOR_TYPE, string>> = {
+  [GOOGLE_ADS_SELECTOR_TYPE.AD_NAME]: 'ad',
+  [GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_NAME]: 'adGroup',
+  [GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_NAME]: 'campaign',
+  [GOOGLE_ADS_SELECTOR_TYPE.ASSET_GROUP_NAME]: 'assetGroup',
+};
+
+// Selectors picking entities by a GAQL WHERE clause
+const QUERY_SELECTORS: Partial<Record<GOOGLE_ADS_SELECTOR_TYPE, string>> = {
+  [GOOGLE_ADS_SELECTOR_TYPE.AD_QUERY]: 'ad',
+  [GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_QUERY]: 'adGroup',
+  [GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_QUERY]: 'campaign',
+  [GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_QUERY]: 'keyword',
+  [GOOGLE_ADS_SELECTOR_TYPE.ASSET_GROUP_QUERY]: 'assetGroup',
+};
+
 export enum GOOGLE_ADS_ENTITY_STATUS {
   ENABLED = 'ENABLED',
   PAUSED = 'PAUSED',
@@ -43,6 +146,42 @@ export enum GOOGLE_ADS_ENTITY_STATUS {
 export enum GOOGLE_ADS_ACTION {
   TOGGLE = 'Enable/Pause',
   MANAGE_CONV_VALUE_RULE = 'Manage Conv. Value Rule',
+  SET_BUDGET = 'Set Budget',
+  SET_BID_MODIFIER = 'Set Bid Modifier',
+  SET_CUSTOMIZER = 'Set Customizer',
+}
+
+export enum GOOGLE_ADS_CRITERION_TYPE {
+  LOCATION = 'LOCATION',
+  DEVICE = 'DEVICE',
+  AD_SCHEDULE = 'AD_SCHEDULE',
+}
+
+// Fields of each criterion type, relative to the criterion resource
+const CRITERION_FIELDS: Record<GOOGLE_ADS_CRITERION_TYPE, string[]> = {
+  [GOOGLE_ADS_CRITERION_TYPE.LOCATION]: ['location.geo_target_constant'],
+  [GOOGLE_ADS_CRITERION_TYPE.DEVICE]: ['device.type'],
+  [GOOGLE_ADS_CRITERION_TYPE.AD_SCHEDULE]: [
+    'ad_schedule.day_of_week',
+    'ad_schedule.start_hour',
+    'ad_schedule.start_minute',
+    'ad_schedule.end_hour',
+    'ad_schedule.end_minute',
+  ],
+};
+
+interface CriterionResource {
+  resource: string;
+  entityName: string;
+  operationType: string;
+  parent: string;
+  // Whether the resource has 'type' and 'negative' fields
+  isCriterion: boolean;
+}
+
+export enum GOOGLE_ADS_BUDGET_MODE {
+  ABSOLUTE = 'absolute',
+  PERCENTAGE = 'percentage',
 }
 
 interface Parameters {
@@ -52,6 +191,18 @@ interface Parameters {
   serviceAccount?: ServiceAccount;
   geo?: string;
   conversionWeight?: number;
+  budgetMode?: GOOGLE_ADS_BUDGET_MODE;
+  budgetValue?: number;
+  minBudget?: number;
+  maxBudget?: number;
+  updateSharedBudgets?: boolean | string;
+  criterionType?: GOOGLE_ADS_CRITERION_TYPE;
+  criteria?: string;
+  bidModifier?: number;
+  nameMatch?: GOOGLE_ADS_NAME_MATCH;
+  customizerAttribute?: string;
+  customizerValue?: string;
+  evaluationAsValue?: boolean | string;
 }
 
 interface Entity {
@@ -59,6 +210,55 @@ interface Entity {
   status: GOOGLE_ADS_ENTITY_STATUS;
 }
 
+interface Budget {
+  resourceName: string;
+  amountMicros: string;
+  explicitlyShared?: boolean;
+}
+
+interface Criterion {
+  resourceName: string;
+  campaign?: string;
+  adGroup?: string;
+  bidModifier?: number;
+  location?: { geoTargetConstant: string };
+  device?: { type: string };
+  adSchedule?: {
+    dayOfWeek: string;
+    startHour: number;
+    startMinute: string;
+    endHour: number;
+    endMinute: string;
+  };
+}
+
+interface CustomizerAttribute {
+  resourceName: string;
+  type: string;
+}
+
+interface CustomizerValue {
+  resourceName: string;
+  campaign?: string;
+  adGroup?: string;
+  value?: { type: string; stringValue: string };
+}
+
+interface MutateResponse {
+  mutateOperationResponses?: Array<Record<string, Object>>;
+  partialFailureError?: {
+    message: string;
+    details?: Array<{
+      errors?: Array<{
+        message: string;
+        location?: {
+          fieldPathElements?: Array<{ fieldName: string; index?: number }>;
+        };
+      }>;
+    }>;
+  };
+}
+
 export class GoogleAds extends TargetAgent {
   static friendlyName = 'Google Ads';
   authToken?: string;
@@ -68,6 +268,7 @@ export class GoogleAds extends TargetAgent {
     'customerId',
     'developerToken',
   ];
+  scopes = [GOOGLE_ADS_SCOPE];
 
   constructor() {
     super();
@@ -81,21 +282,21 @@ export class GoogleAds extends TargetAgent {
    * @param {string} identifier
    * @param {GOOGLE_ADS_SELECTOR_TYPE} type
    * @param {GOOGLE_ADS_ACTION} action
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    */
   process(
     identifier: string,
     type: GOOGLE_ADS_SELECTOR_TYPE,
     action: GOOGLE_ADS_ACTION,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Parameters
   ) {
     // Check for missing parameters
     this.ensureRequiredParameters(params);
 
     const auth = new Auth(params.serviceAccount ?? undefined);
-    this.authToken = auth.getAuthToken();
+    this.authToken = auth.getAuthToken(this.scopes);
 
     this.parameters = params;
 
@@ -103,6 +304,12 @@ export class GoogleAds extends TargetAgent {
       return this.handleToggle(identifier, type, evaluation, params);
     } else if (action === GOOGLE_ADS_ACTION.MANAGE_CONV_VALUE_RULE) {
       this.handleManageConversionRule(identifier, type, evaluation, params);
+    } else if (action === GOOGLE_ADS_ACTION.SET_BUDGET) {
+      this.handleSetBudget(identifier, type, evaluation, params);
+    } else if (action === GOOGLE_ADS_ACTION.SET_BID_MODIFIER) {
+      this.handleSetBidModifier(identifier, type, evaluation, params);
+    } else if (action === GOOGLE_ADS_ACTION.SET_CUSTOMIZER) {
+      this.handleSetCustomizer(identifier, type, evaluation, params);
     } else {
       throw new Error(
         `Action '${action}' not supported in '${GoogleAds.friendlyName}' agent`
@@ -115,18 +322,18 @@ export class GoogleAds extends TargetAgent {
    *
    * @param {string} identifier
    * @param {GOOGLE_ADS_SELECTOR_TYPE} type
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    */
   handleToggle(
     identifier: string,
     type: GOOGLE_ADS_SELECTOR_TYPE,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Parameters
   ) {
     console.log(`Identifier type = ${typeof identifier}`);
 
-    const status = evaluation
+    const status = this.toBoolean(evaluation)
       ? GOOGLE_ADS_ENTITY_STATUS.ENABLED
       : GOOGLE_ADS_ENTITY_STATUS.PAUSED;
 
@@ -158,80 +365,1170 @@ export class GoogleAds extends TargetAgent {
       );
     } else if (type === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_LABEL) {
       this.updateCampaignsByLabel(params.customerId, identifier, status);
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_ID) {
+      this.updateEntitiesStatus(
+        params.customerId,
+        'adGroupCriterionOperation',
+        this.getKeywordsById(params.customerId, identifier.split(';')),
+        status
+      );
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_LABEL) {
+      this.updateEntitiesStatus(
+        params.customerId,
+        'adGroupCriterionOperation',
+        this.getKeywordsByLabel(params.customerId, identifier),
+        status
+      );
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.ASSET_GROUP_ID) {
+      this.updateEntitiesStatus(
+        params.customerId,
+        'assetGroupOperation',
+        this.getAssetGroupsById(params.customerId, identifier.split(';')),
+        status
+      );
+    } else if (GoogleAds.getFilteredEntity(type)) {
+      this.updateEntitiesStatus(
+        params.customerId,
+        (GoogleAds.getFilteredEntity(type) as QueryableEntity).operationType,
+        this.getEntitiesByFilter(
+          params.customerId,
+          type,
+          identifier,
+          params.nameMatch
+        ),
+        status
+      );
+    }
+  }
+
+  /**
+   * Handles delegation of managing campaign CVRs.
+   * A numeric evaluation is used as conversion weight if the rule opts in
+   * via 'evaluationAsValue', otherwise the evaluation decides between
+   * persisting the 'conversionWeight' target param and disabling the CVRs.
+   */
+  private handleManageConversionRule(
+    identifier: string,
+    selectoryType: GOOGLE_ADS_SELECTOR_TYPE,
+    evaluation: Evaluation,
+    params: Parameters
+  ) {
+    const numericValue = this.getNumericValue(evaluation, params);
+    const conversionWeight = numericValue ?? params.conversionWeight;
+
+    if (conversionWeight === undefined) {
+      throw new Error('The conversion weight target param was not provided.');
+    }
+
+    if (params.geo === undefined) {
+      throw new Error('The geo target param value was not provided.');
+    }
+
+    const campaings: Entity[] =
+      selectoryType === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID
+        ? this.getCampaingsById(
+            params.customerId,
+            (identifier as string).split(';').map(id => String(id))
+          )
+        : this.getCampaignsByLabel(params.customerId, identifier);
+    console.log(
+      `Retrieved following campaigns to manage CVRs for:  ${campaings.map(
+        campaign => campaign.resourceName
+      )}`
+    );
+
+    // The empty DAO only logs, which is all a dry run should do
+    const campaignCvrDao: CampaignDao = this.dryRun
+      ? new EmptyCampaignDaoImpl(params.customerId)
+      : new GoogleAdsApiCampaignDaoImpl(
+          params.customerId,
+          params.developerToken,
+          params.serviceAccount,
+          params.loginCustomerId
+        );
+
+    if (numericValue === undefined && !this.toBoolean(evaluation)) {
+      if (this.dryRun) {
+        this.reportPlannedChange(
+          `Disable CVRs (geo ${params.geo}) for ${campaings.map(
+            entity => entity.resourceName
+          )}`
+        );
+      }
+
+      campaignCvrDao.disableAllCvrsForCampaigns(
+        campaings.map(entity => entity.resourceName),
+        params.geo
+      );
+    } else {
+      // The DAO will create a multiplication CVR, where conversion values are
+      // multiplied by the generated %.  NOTE:  Ads restricts multiplied
+      // percentages be clamped between an lower and upper bound of 50% to 1000%
+      const clampedAdjustment: number = Math.max(
+        CVR_ADJUSTMENT_LOWER_BOUND,
+        Math.min(conversionWeight, CVR_ADJUSTMENT_UPPER_BOUND)
+      );
+      const finalAdjustment: number = 1 + clampedAdjustment;
+
+      if (this.dryRun) {
+        this.reportPlannedChange(
+          `Persist CVR (geo ${
+            params.geo
+          }, weight ${finalAdjustment}) for ${campaings.map(
+            entity => entity.resourceName
+          )}`
+        );
+      }
+
+      console.log(
+        `Persisting CVR:  geo ${params.geo}, conv. weight ${finalAdjustment}`
+      );
+      campaignCvrDao.persistCvrForCampaigns(
+        campaings.map(entity => entity.resourceName),
+        finalAdjustment,
+        params.geo
+      );
+    }
+  }
+
+  /**
+   * Handle set budget action.
+   * The budget is set to the numeric evaluation (see getNumericValue) or,
+   * for other evaluations which are on, to the 'budgetValue' target param.
+   * Depending on the 'budgetMode' the value is an amount or a percentage of
+   * the amount the budget had before IFTTA first changed it. Evaluations
+   * which are off restore that original amount.
+   *
+   * @param {string} identifier
+   * @param {GOOGLE_ADS_SELECTOR_TYPE} type
+   * @param {Evaluation} evaluation
+   * @param {Parameters} params Additional parameters
+   * @throws {Error} If budgets could not be updated
+   */
+  private handleSetBudget(
+    identifier: string,
+    type: GOOGLE_ADS_SELECTOR_TYPE,
+    evaluation: Evaluation,
+    params: Parameters
+  ) {
+    if (
+      type !== GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID &&
+      type !== GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_LABEL &&
+      GoogleAds.getFilteredEntity(type)?.resource !== 'campaign'
+    ) {
+      throw new Error(
+        `Identifier type '${type}' not supported for action '${GOOGLE_ADS_ACTION.SET_BUDGET}'`
+      );
+    }
+
+    const mode = params.budgetMode || GOOGLE_ADS_BUDGET_MODE.ABSOLUTE;
+
+    if (!Object.values(GOOGLE_ADS_BUDGET_MODE).includes(mode)) {
+      throw new Error(`Budget mode '${mode}' not supported`);
+    }
+
+    let value = this.getNumericValue(evaluation, params);
+
+    if (value === undefined && this.toBoolean(evaluation)) {
+      if (
+        params.budgetValue === undefined ||
+        String(params.budgetValue) === ''
+      ) {
+        throw new Error('The budget value target param was not provided.');
+      }
+
+      value = Number(params.budgetValue);
+    }
+
+    if (value !== undefined && isNaN(value)) {
+      throw new Error(`Invalid budget value: ${value}`);
+    }
+
+    const campaigns =
+      type === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID
+        ? this.getCampaingsById(params.customerId, identifier.split(';'))
+        : type === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_LABEL
+        ? this.getCampaignsByLabel(params.customerId, identifier)
+        : this.getEntitiesByFilter(
+            params.customerId,
+            type,
+            identifier,
+            params.nameMatch
+          );
+
+    const errors: string[] = [];
+    const updates: Array<{ budget: Budget; amountMicros: number }> = [];
+    const restored: string[] = [];
+
+    // Campaigns may share a budget, which is updated only once
+    for (const budget of this.getCampaignBudgets(
+      params.customerId,
+      campaigns.map(campaign => campaign.resourceName)
+    )) {
+      if (
+        budget.explicitlyShared &&
+        !this.toBoolean(params.updateSharedBudgets ?? false)
+      ) {
+        errors.push(
+          `${budget.resourceName}: shared budget not updated, set 'updateSharedBudgets' to change it`
+        );
+        continue;
+      }
+
+      const storedBase = GoogleAds.getBudgetBase(budget.resourceName);
+      const baseMicros = storedBase ?? Number(budget.amountMicros);
+      let amountMicros = baseMicros;
+
+      if (value !== undefined) {
+        amountMicros =
+          mode === GOOGLE_ADS_BUDGET_MODE.PERCENTAGE
+            ? baseMicros * (1 + value / 100)
+            : value * 1e6;
+      }
+
+      // Guardrails
+      if (params.minBudget !== undefined && String(params.minBudget) !== '') {
+        amountMicros = Math.max(amountMicros, Number(params.minBudget) * 1e6);
+      }
+      if (params.maxBudget !== undefined && String(params.maxBudget) !== '') {
+        amountMicros = Math.min(amountMicros, Number(params.maxBudget) * 1e6);
+      }
+
+      amountMicros =
+        Math.round(amountMicros / BUDGET_MICROS_STEP) * BUDGET_MICROS_STEP;
+
+      if (amountMicros <= 0) {
+        errors.push(`${budget.resourceName}: budget must be greater than 0`);
+        continue;
+      }
+
+      if (amountMicros === Number(budget.amountMicros)) {
+        console.log(`Skipping ${budget.resourceName}, already ${amountMicros}`);
+      } else {
+        updates.push({ budget, amountMicros });
+      }
+
+      // Keep the original amount as long as the budget is changed by IFTTA
+      if (value === undefined) {
+        restored.push(budget.resourceName);
+      } else if (storedBase === undefined && !this.dryRun) {
+        GoogleAds.setBudgetBase(budget.resourceName, baseMicros);
+      }
+    }
+
+    this.updateBudgets(params.customerId, updates);
+
+    if (!this.dryRun) {
+      restored.forEach(resourceName =>
+        GoogleAds.deleteBudgetBase(resourceName)
+      );
+    }
+
+    if (errors.length) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
+  /**
+   * Handle set bid modifier action.
+   * Creates or updates location, device or ad schedule criteria of the
+   * selected campaigns or ad groups. The bid adjustment (in percent) is the
+   * numeric evaluation (see getNumericValue) or, for other evaluations which
+   * are on, the 'bidModifier' target param. Locations and ad schedules are
+   * only added to campaigns or ad groups which already have some, as the
+   * first one would restrict the targeting.
+   * Evaluations which are off restore the bid modifiers IFTTA changed and
+   * remove the criteria it created.
+   *
+   * @param {string} identifier
+   * @param {GOOGLE_ADS_SELECTOR_TYPE} type
+   * @param {Evaluation} evaluation
+   * @param {Parameters} params Additional parameters
+   * @throws {Error} If criteria could not be updated
+   */
+  private handleSetBidModifier(
+    identifier: string,
+    type: GOOGLE_ADS_SELECTOR_TYPE,
+    evaluation: Evaluation,
+    params: Parameters
+  ) {
+    const criterionType = String(
+      params.criterionType ?? ''
+    ).toUpperCase() as GOOGLE_ADS_CRITERION_TYPE;
+
+    if (!Object.values(GOOGLE_ADS_CRITERION_TYPE).includes(criterionType)) {
+      throw new Error(
+        `Criterion type '${
+          params.criterionType
+        }' not supported, use one of ${Object.values(
+          GOOGLE_ADS_CRITERION_TYPE
+        ).join(', ')}`
+      );
+    }
+
+    if (!params.criteria) {
+      throw new Error('The criteria target param was not provided.');
+    }
+
+    let adjustment = this.getNumericValue(evaluation, params);
+
+    if (adjustment === undefined && this.toBoolean(evaluation)) {
+      if (
+        params.bidModifier === undefined ||
+        String(params.bidModifier) === ''
+      ) {
+        throw new Error('The bid modifier target param was not provided.');
+      }
+
+      adjustment = Number(params.bidModifier);
+    }
+
+    if (adjustment !== undefined && isNaN(adjustment)) {
+      throw new Error(`Invalid bid modifier: ${adjustment}`);
+    }
+
+    const bidModifier =
+      adjustment === undefined
+        ? 1
+        : Math.round(
+            Math.max(
+              criterionType === GOOGLE_ADS_CRITERION_TYPE.DEVICE
+                ? 0
+                : BID_MODIFIER_LOWER_BOUND,
+              Math.min(1 + adjustment / 100, BID_MODIFIER_UPPER_BOUND)
+            ) * 100
+          ) / 100;
+
+    const { level, parents } = this.getCampaignsOrAdGroups(
+      identifier,
+      type,
+      GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+      params
+    );
+    const criterionResource = GoogleAds.getCriterionResource(
+      level,
+      criterionType
+    );
+
+    const criteria = params.criteria
+      .split(';')
+      .map(criterion => criterion.trim())
+      .filter(criterion => criterion)
+      .map(criterion => GoogleAds.toCriterion(criterionType, criterion));
+
+    const existing = this.getCriteria(
+      params.customerId,
+      criterionResource,
+      criterionType,
+      parents.map(parent => parent.resourceName)
+    );
+
+    const operationType = criterionResource.operationType;
+    const operations: Array<Record<string, Object>> = [];
+    const changes: Array<{
+      name: string;
+      oldValue: string;
+      newValue: string;
+      baseKey: string;
+      base?: string;
+    }> = [];
+    const untargeted = new Set<string>();
+
+    for (const parent of parents) {
+      const parentCriteria = existing.filter(
+        candidate => candidate[level] === parent.resourceName
+      );
+
+      for (const criterion of criteria) {
+        const key = GoogleAds.getCriterionKey(criterion);
+        const baseKey = `${parent.resourceName}:${key}`;
+        const storedBase = GoogleAds.getBidModifierBase(baseKey);
+        const match = parentCriteria.find(
+          candidate => GoogleAds.getCriterionKey(candidate) === key
+        );
+        const currentValue = Number(match?.bidModifier ?? 1);
+
+        if (adjustment === undefined) {
+          // Only criteria changed by IFTTA are restored
+          if (storedBase === undefined) continue;
+
+          if (!match) {
+            if (!this.dryRun) GoogleAds.deleteBidModifierBase(baseKey);
+            continue;
+          }
+
+          if (storedBase === '') {
+            operations.push({
+              [operationType]: { remove: match.resourceName },
+            });
+            changes.push({
+              name: match.resourceName,
+              oldValue: String(currentValue),
+              newValue: '',
+              baseKey,
+            });
+          } else if (Number(storedBase) === currentValue) {
+            if (!this.dryRun) GoogleAds.deleteBidModifierBase(baseKey);
+          } else {
+            operations.push({
+              [operationType]: {
+                updateMask: 'bid_modifier',
+                update: {
+                  resourceName: match.resourceName,
+                  bidModifier: Number(storedBase),
+                },
+              },
+            });
+            changes.push({
+              name: match.resourceName,
+              oldValue: String(currentValue),
+              newValue: storedBase,
+              baseKey,
+            });
+          }
+        } else if (match) {
+          if (currentValue === bidModifier) {
+            console.log(
+              `Skipping ${match.resourceName}, already ${bidModifier}`
+            );
+            continue;
+          }
+
+          operations.push({
+            [operationType]: {
+              updateMask: 'bid_modifier',
+              update: { resourceName: match.resourceName, bidModifier },
+            },
+          });
+          changes.push({
+            name: match.resourceName,
+            oldValue: String(currentValue),
+            newValue: String(bidModifier),
+            baseKey,
+            base: storedBase ?? String(currentValue),
+          });
+        } else if (
+          criterionType !== GOOGLE_ADS_CRITERION_TYPE.DEVICE &&
+          parentCriteria.length === 0
+        ) {
+          // The first location or ad schedule would restrict the targeting
+          untargeted.add(parent.resourceName);
+        } else {
+          operations.push({
+            [operationType]: {
+              create: {
+                ...criterion,
+                [level]: parent.resourceName,
+                bidModifier,
+              },
+            },
+          });
+          changes.push({
+            name: `${parent.resourceName} (${key})`,
+            oldValue: '',
+            newValue: String(bidModifier),
+            baseKey,
+            base: '',
+          });
+        }
+      }
+    }
+
+    if (this.dryRun) {
+      changes.forEach(change =>
+        this.reportPlannedChange(
+          change.newValue === ''
+            ? `Remove criterion ${change.name}`
+            : `Set bid modifier of ${change.name} to ${change.newValue}`
+        )
+      );
+    } else if (operations.length) {
+      const failures = this.mutate(params.customerId, operations);
+
+      changes.forEach((change, index) => {
+        if (index in failures) return;
+
+        ChangeLog.getInstance().record(
+          change.name,
+          change.oldValue,
+          change.newValue
+        );
+
+        // Keep the original value as long as the criterion is changed by IFTTA
+        if (change.base === undefined) {
+          GoogleAds.deleteBidModifierBase(change.baseKey);
+        } else {
+          GoogleAds.setBidModifierBase(change.baseKey, change.base);
+        }
+      });
+
+      this.throwOnFailures(
+        changes.map(change => change.name),
+        failures
+      );
+    }
+
+    if (untargeted.size) {
+      throw new Error(
+        `No ${criterionType} criteria to adjust, none added to: ${[
+          ...untargeted,
+        ].join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Handle set customizer action.
+   * Sets the value of a customizer attribute for the account, or for the
+   * selected campaigns or ad groups. Any text or number evaluation is used as
+   * the value, so e.g. '0' or 'no' are written as they are. A TRUE
+   * evaluation uses the 'customizerValue' target param, while empty and FALSE
+   * evaluations remove the value, so ads fall back to their default text.
+   *
+   * @param {string} identifier
+   * @param {GOOGLE_ADS_SELECTOR_TYPE} type
+   * @param {Evaluation} evaluation
+   * @param {Parameters} params Additional parameters
+   * @throws {Error} If customizer values could not be updated
+   */
+  private handleSetCustomizer(
+    identifier: string,
+    type: GOOGLE_ADS_SELECTOR_TYPE,
+    evaluation: Evaluation,
+    params: Parameters
+  ) {
+    if (!params.customizerAttribute) {
+      throw new Error(
+        'The customizer attribute target param was not provided.'
+      );
+    }
+
+    const text = String(evaluation).trim();
+    let value: string | undefined;
+
+    if (text !== '' && !/^(true|false)$/i.test(text)) {
+      value = String(evaluation);
+    } else if (/^true$/i.test(text)) {
+      if (
+        params.customizerValue === undefined ||
+        String(params.customizerValue) === ''
+      ) {
+        throw new Error('The customizer value target param was not provided.');
+      }
+
+      value = String(params.customizerValue);
+    }
+
+    let customerId = params.customerId;
+    let level: 'customer' | 'campaign' | 'adGroup';
+    let parents: string[];
+
+    if (type === GOOGLE_ADS_SELECTOR_TYPE.CUSTOMER_ID) {
+      customerId = identifier.replace(/-/g, '');
+      level = 'customer';
+      parents = [`customers/${customerId}`];
+    } else {
+      const selection = this.getCampaignsOrAdGroups(
+        identifier,
+        type,
+        GOOGLE_ADS_ACTION.SET_CUSTOMIZER,
+        params
+      );
+      level = selection.level;
+      parents = selection.parents.map(parent => parent.resourceName);
+    }
+
+    const attribute = this.getCustomizerAttribute(
+      customerId,
+      params.customizerAttribute
+    );
+    const existing = this.getCustomizerValues(
+      customerId,
+      level,
+      attribute.resourceName,
+      level === 'customer' ? [] : parents
+    );
+
+    // Customizer values can't be updated, so they are replaced instead
+    const operationType = `${level}CustomizerOperation`;
+    const operations: Array<Record<string, Object>> = [];
+    const operationNames: string[] = [];
+    const changes: Array<{
+      name: string;
+      oldValue: string;
+      operationIndexes: number[];
+    }> = [];
+
+    for (const parent of parents) {
+      const match = existing.find(
+        candidate => level === 'customer' || candidate[level] === parent
+      );
+      const oldValue = match?.value?.stringValue ?? '';
+
+      if (oldValue === (value ?? '')) {
+        console.log(`Skipping ${parent}, already '${oldValue}'`);
+        continue;
+      }
+
+      const name = `${parent} (${params.customizerAttribute})`;
+      const operationIndexes: number[] = [];
+
+      if (match) {
+        operationIndexes.push(operations.length);
+        operations.push({ [operationType]: { remove: match.resourceName } });
+        operationNames.push(match.resourceName);
+      }
+
+      if (value !== undefined) {
+        operationIndexes.push(operations.length);
+        operations.push({
+          [operationType]: {
+            create: {
+              ...(level === 'customer' ? {} : { [level]: parent }),
+              customizerAttribute: attribute.resourceName,
+              value: { type: attribute.type, stringValue: value },
+            },
+          },
+        });
+        operationNames.push(name);
+      }
+
+      changes.push({ name, oldValue, operationIndexes });
+    }
+
+    if (operations.length === 0) return;
+
+    if (this.dryRun) {
+      changes.forEach(change =>
+        this.reportPlannedChange(
+          value === undefined
+            ? `Remove customizer value of ${change.name}`
+            : `Set customizer value of ${change.name} to '${value}'`
+        )
+      );
+      return;
+    }
+
+    const failures = this.mutate(customerId, operations);
+
+    changes.forEach(change => {
+      if (!change.operationIndexes.some(index => index in failures)) {
+        ChangeLog.getInstance().record(
+          change.name,
+          change.oldValue,
+          value ?? ''
+        );
+      }
+    });
+
+    this.throwOnFailures(operationNames, failures);
+  }
+
+  /**
+   * Get an enabled customizer attribute by name.
+   *
+   * @param {string} customerId
+   * @param {string} name
+   * @returns {CustomizerAttribute}
+   * @throws {Error} If the attribute does not exist
+   */
+  private getCustomizerAttribute(
+    customerId: string,
+    name: string
+  ): CustomizerAttribute {
+    const query = `
+      SELECT
+        customizer_attribute.resource_name,
+        customizer_attribute.type
+      FROM customizer_attribute
+      WHERE
+        customizer_attribute.name = '${GoogleAds.escapeQueryString(name)}'
+        AND customizer_attribute.status = 'ENABLED'
+    `;
+
+    const path = `customers/${customerId}/googleAds:search`;
+    const res = this.fetchUrl(path, 'POST', { query }, true) as {
+      results?: Array<Record<'customizerAttribute', CustomizerAttribute>>;
+    };
+
+    if (!(res.results && res.results.length)) {
+      throw new Error(`Customizer attribute ${name} not found`);
+    }
+
+    return res.results[0].customizerAttribute;
+  }
+
+  /**
+   * Get the enabled values of a customizer attribute for the account, or
+   * for campaigns or ad groups.
+   *
+   * @param {string} customerId
+   * @param {string} level 'customer', 'campaign' or 'adGroup'
+   * @param {string} attributeResourceName
+   * @param {string[]} parentResourceNames Campaigns or ad groups
+   * @returns {CustomizerValue[]}
+   */
+  private getCustomizerValues(
+    customerId: string,
+    level: 'customer' | 'campaign' | 'adGroup',
+    attributeResourceName: string,
+    parentResourceNames: string[]
+  ): CustomizerValue[] {
+    const parent = level === 'adGroup' ? 'ad_group' : level;
+    const resource = `${parent}_customizer`;
+
+    const query = `
+      SELECT
+        ${resource}.resource_name,
+        ${level === 'customer' ? '' : `${resource}.${parent},`}
+        ${resource}.value.string_value
+      FROM ${resource}
+      WHERE
+        ${resource}.customizer_attribute = '${attributeResourceName}'
+        AND ${resource}.status = 'ENABLED'
+        ${
+          level === 'customer'
+            ? ''
+            : `AND ${parent}.resource_name IN ('${parentResourceNames.join(
+                "','"
+              )}')`
+        }
+    `;
+
+    const path = `customers/${customerId}/googleAds:search`;
+    const res = this.fetchUrl(path, 'POST', { query }, true) as {
+      results?: Array<Record<string, CustomizerValue>>;
+    };
+
+    return (res.results ?? []).map(
+      result => result[`${level}Customizer`] as CustomizerValue
+    );
+  }
+
+  /**
+   * Get a numeric evaluation to be used as value (e.g. a budget) instead of
+   * as on/off. Rules have to opt in via the 'evaluationAsValue' target param,
+   * so formulas returning 1 or 0 keep working as on/off. Zero is always off.
+   *
+   * @param {Evaluation} evaluation
+   * @param {Parameters} params Additional parameters
+   * @returns {number|undefined}
+   */
+  private getNumericValue(evaluation: Evaluation, params: Parameters) {
+    if (
+      typeof evaluation !== 'number' ||
+      evaluation === 0 ||
+      !this.toBoolean(params.evaluationAsValue ?? false)
+    ) {
+      return undefined;
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Get the campaigns or ad groups selected by an identifier.
+   *
+   * @param {string} identifier
+   * @param {GOOGLE_ADS_SELECTOR_TYPE} type
+   * @param {GOOGLE_ADS_ACTION} action Action requiring the selection
+   * @param {Parameters} params Additional parameters
+   * @returns {{level: string, parents: Entity[]}}
+   * @throws {Error} If the selector type selects neither
+   */
+  private getCampaignsOrAdGroups(
+    identifier: string,
+    type: GOOGLE_ADS_SELECTOR_TYPE,
+    action: GOOGLE_ADS_ACTION,
+    params: Parameters
+  ): { level: 'campaign' | 'adGroup'; parents: Entity[] } {
+    if (type === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID) {
+      return {
+        level: 'campaign',
+        parents: this.getCampaingsById(
+          params.customerId,
+          identifier.split(';')
+        ),
+      };
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_LABEL) {
+      return {
+        level: 'campaign',
+        parents: this.getCampaignsByLabel(params.customerId, identifier),
+      };
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_ID) {
+      return {
+        level: 'adGroup',
+        parents: this.getAdGroupsById(params.customerId, identifier.split(';')),
+      };
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_LABEL) {
+      return {
+        level: 'adGroup',
+        parents: this.getAdGroupsByLabel(params.customerId, identifier),
+      };
+    }
+
+    const resource = GoogleAds.getFilteredEntity(type)?.resource;
+
+    if (resource !== 'campaign' && resource !== 'ad_group') {
+      throw new Error(
+        `Identifier type '${type}' not supported for action '${action}'`
+      );
+    }
+
+    return {
+      level: resource === 'campaign' ? 'campaign' : 'adGroup',
+      parents: this.getEntitiesByFilter(
+        params.customerId,
+        type,
+        identifier,
+        params.nameMatch
+      ),
+    };
+  }
+
+  /**
+   * Get the resource holding bid modifiers of a criterion type for campaigns
+   * or ad groups. Device modifiers of ad groups aren't criteria, but ad group
+   * bid modifiers.
+   *
+   * @param {string} level 'campaign' or 'adGroup'
+   * @param {GOOGLE_ADS_CRITERION_TYPE} criterionType
+   * @returns {CriterionResource}
+   * @throws {Error} If ad groups don't support the criterion type
+   */
+  private static getCriterionResource(
+    level: 'campaign' | 'adGroup',
+    criterionType: GOOGLE_ADS_CRITERION_TYPE
+  ): CriterionResource {
+    if (level === 'campaign') {
+      return {
+        resource: 'campaign_criterion',
+        entityName: 'campaignCriterion',
+        operationType: 'campaignCriterionOperation',
+        parent: 'campaign',
+        isCriterion: true,
+      };
+    }
+
+    if (criterionType === GOOGLE_ADS_CRITERION_TYPE.DEVICE) {
+      return {
+        resource: 'ad_group_bid_modifier',
+        entityName: 'adGroupBidModifier',
+        operationType: 'adGroupBidModifierOperation',
+        parent: 'ad_group',
+        isCriterion: false,
+      };
+    }
+
+    if (criterionType === GOOGLE_ADS_CRITERION_TYPE.AD_SCHEDULE) {
+      throw new Error(
+        `Criterion type '${criterionType}' not supported for ad groups, select campaigns instead`
+      );
+    }
+
+    return {
+      resource: 'ad_group_criterion',
+      entityName: 'adGroupCriterion',
+      operationType: 'adGroupCriterionOperation',
+      parent: 'ad_group',
+      isCriterion: true,
+    };
+  }
+
+  /**
+   * Get the (non-negative) criteria of a type for campaigns or ad groups.
+   *
+   * @param {string} customerId
+   * @param {CriterionResource} criterionResource
+   * @param {GOOGLE_ADS_CRITERION_TYPE} criterionType
+   * @param {string[]} parentResourceNames
+   * @returns {Criterion[]}
+   */
+  private getCriteria(
+    customerId: string,
+    criterionResource: CriterionResource,
+    criterionType: GOOGLE_ADS_CRITERION_TYPE,
+    parentResourceNames: string[]
+  ): Criterion[] {
+    if (parentResourceNames.length === 0) return [];
+
+    const { resource, parent } = criterionResource;
+
+    const query = `
+      SELECT
+        ${resource}.resource_name,
+        ${resource}.${parent},
+        ${resource}.bid_modifier,
+        ${CRITERION_FIELDS[criterionType]
+          .map(field => `${resource}.${field}`)
+          .join(',\n        ')}
+      FROM ${resource}
+      WHERE
+        ${parent}.resource_name IN ('${parentResourceNames.join("','")}')
+        ${
+          criterionResource.isCriterion
+            ? `AND ${resource}.type = '${criterionType}'
+        AND ${resource}.negative = FALSE`
+            : ''
+        }
+    `;
+
+    const path = `customers/${customerId}/googleAds:search`;
+    const res = this.fetchUrl(path, 'POST', { query }, true) as {
+      results?: Array<Record<string, Criterion>>;
+    };
+
+    return (res.results ?? []).map(
+      result => result[criterionResource.entityName] as Criterion
+    );
+  }
+
+  /**
+   * Convert a criterion given in the sheet to its API representation.
+   * Locations are geo target constant IDs (e.g. '1023191'), devices are
+   * device types (e.g. 'MOBILE') and ad schedules are given as
+   * '<DAY> <HH:MM>-<HH:MM>' (e.g. 'MONDAY 06:00-22:00').
+   *
+   * @param {GOOGLE_ADS_CRITERION_TYPE} criterionType
+   * @param {string} criterion
+   * @returns {Partial<Criterion>}
+   * @throws {Error} If the criterion is invalid
+   */
+  private static toCriterion(
+    criterionType: GOOGLE_ADS_CRITERION_TYPE,
+    criterion: string
+  ): Partial<Criterion> {
+    if (criterionType === GOOGLE_ADS_CRITERION_TYPE.LOCATION) {
+      const id = criterion.replace(/^geoTargetConstants\//, '');
+
+      if (!/^\d+$/.test(id)) {
+        throw new Error(`Invalid location criterion: '${criterion}'`);
+      }
+
+      return { location: { geoTargetConstant: `geoTargetConstants/${id}` } };
+    }
+
+    if (criterionType === GOOGLE_ADS_CRITERION_TYPE.DEVICE) {
+      return { device: { type: criterion.toUpperCase() } };
+    }
+
+    const schedule = criterion.match(
+      /^(\w+)\s+(\d{1,2}):(00|15|30|45)-(\d{1,2}):(00|15|30|45)$/
+    );
+
+    if (!schedule) {
+      throw new Error(`Invalid ad schedule criterion: '${criterion}'`);
+    }
+
+    return {
+      adSchedule: {
+        dayOfWeek: schedule[1].toUpperCase(),
+        startHour: Number(schedule[2]),
+        startMinute: AD_SCHEDULE_MINUTES[schedule[3]],
+        endHour: Number(schedule[4]),
+        endMinute: AD_SCHEDULE_MINUTES[schedule[5]],
+      },
+    };
+  }
+
+  /**
+   * Get a key identifying a criterion regardless of its parent.
+   *
+   * @param {Partial<Criterion>} criterion
+   * @returns {string}
+   */
+  private static getCriterionKey(criterion: Partial<Criterion>) {
+    if (criterion.location) {
+      return criterion.location.geoTargetConstant;
+    }
+    if (criterion.device) {
+      return criterion.device.type;
+    }
+
+    const schedule = criterion.adSchedule;
+
+    return schedule
+      ? // Zero hours are omitted in API responses
+        `${schedule.dayOfWeek} ${schedule.startHour ?? 0}:${
+          schedule.startMinute
+        }-${schedule.endHour ?? 0}:${schedule.endMinute}`
+      : '';
+  }
+
+  /**
+   * Update the amounts of budgets using a single batched mutate request.
+   *
+   * @param {string} customerId
+   * @param {Array<{budget: Budget, amountMicros: number}>} updates
+   * @throws {Error} If any of the operations failed
+   */
+  private updateBudgets(
+    customerId: string,
+    updates: Array<{ budget: Budget; amountMicros: number }>
+  ) {
+    if (updates.length === 0) return;
+
+    if (this.dryRun) {
+      updates.forEach(({ budget, amountMicros }) =>
+        this.reportPlannedChange(
+          `Set budget of ${budget.resourceName} to ${amountMicros / 1e6}`
+        )
+      );
+      return;
+    }
+
+    const failures = this.mutate(
+      customerId,
+      updates.map(({ budget, amountMicros }) => ({
+        campaignBudgetOperation: {
+          updateMask: 'amount_micros',
+          update: {
+            resourceName: budget.resourceName,
+            amountMicros: String(amountMicros),
+          },
+        },
+      }))
+    );
+
+    updates.forEach(({ budget, amountMicros }, index) => {
+      if (!(index in failures)) {
+        ChangeLog.getInstance().record(
+          budget.resourceName,
+          String(Number(budget.amountMicros) / 1e6),
+          String(amountMicros / 1e6)
+        );
+      }
+    });
+
+    this.throwOnFailures(
+      updates.map(({ budget }) => budget.resourceName),
+      failures
+    );
+  }
+
+  /**
+   * Get the (distinct) budgets of campaigns.
+   *
+   * @param {string} customerId
+   * @param {string[]} campaignResourceNames
+   * @returns {Budget[]}
+   */
+  private getCampaignBudgets(
+    customerId: string,
+    campaignResourceNames: string[]
+  ): Budget[] {
+    if (campaignResourceNames.length === 0) return [];
+
+    const query = `
+      SELECT
+        campaign.resource_name,
+        campaign_budget.resource_name,
+        campaign_budget.amount_micros,
+        campaign_budget.explicitly_shared
+      FROM campaign
+      WHERE
+        campaign.resource_name IN ('${campaignResourceNames.join("','")}')
+    `;
+
+    const path = `customers/${customerId}/googleAds:search`;
+    const res = this.fetchUrl(path, 'POST', { query }, true) as {
+      results?: Array<Record<'campaignBudget', Budget>>;
+    };
+
+    const budgets: Record<string, Budget> = {};
+
+    for (const result of res.results ?? []) {
+      budgets[result.campaignBudget.resourceName] = result.campaignBudget;
     }
+
+    return Object.values(budgets);
   }
 
   /**
-   * Handles delegation of managing campaign CVRs.
+   * Get the amount a budget had before IFTTA first changed it.
+   *
+   * @param {string} resourceName
+   * @returns {number|undefined} Amount in micros
    */
-  private handleManageConversionRule(
-    identifier: string,
-    selectoryType: GOOGLE_ADS_SELECTOR_TYPE,
-    evaluation: boolean,
-    params: Parameters
-  ) {
-    if (params.conversionWeight === undefined) {
-      throw new Error('The conversion weight target param was not provided.');
-    }
+  private static getBudgetBase(resourceName: string) {
+    const base = PropertiesService.getScriptProperties().getProperty(
+      `budgetBase:${resourceName}`
+    );
 
-    if (params.geo === undefined) {
-      throw new Error('The geo target param value was not provided.');
-    }
+    return base === null ? undefined : Number(base);
+  }
 
-    const campaings: Entity[] =
-      selectoryType === GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID
-        ? this.getCampaingsById(
-            params.customerId,
-            (identifier as string).split(';').map(id => String(id))
-          )
-        : this.getCampaignsByLabel(params.customerId, identifier);
-    console.log(
-      `Retrieved following campaigns to manage CVRs for:  ${campaings.map(
-        campaign => campaign.resourceName
-      )}`
+  /**
+   * Store the amount a budget had before IFTTA first changed it.
+   *
+   * @param {string} resourceName
+   * @param {number} amountMicros
+   */
+  private static setBudgetBase(resourceName: string, amountMicros: number) {
+    PropertiesService.getScriptProperties().setProperty(
+      `budgetBase:${resourceName}`,
+      String(amountMicros)
     );
+  }
 
-    // TODO:  Replace with real impl when completed.
-    // const campaignCvrDao = new EmptyCampaignDaoImpl(params.customerId);
-    const campaignCvrDao: CampaignDao = new GoogleAdsApiCampaignDaoImpl(
-      params.customerId,
-      params.developerToken,
-      params.serviceAccount,
-      params.loginCustomerId
+  /**
+   * Forget the original amount of a budget once it has been restored.
+   *
+   * @param {string} resourceName
+   */
+  private static deleteBudgetBase(resourceName: string) {
+    PropertiesService.getScriptProperties().deleteProperty(
+      `budgetBase:${resourceName}`
     );
+  }
 
-    if (!evaluation) {
-      campaignCvrDao.disableAllCvrsForCampaigns(
-        campaings.map(entity => entity.resourceName)
-      );
-    } else {
-      // The DAO will create a multiplication CVR, where conversion values are
-      // multiplied by the generated %.  NOTE:  Ads restricts multiplied
-      // percentages be clamped between an lower and upper bound of 50% to 1000%
-      const clampedAdjustment: number = Math.max(
-        CVR_ADJUSTMENT_LOWER_BOUND,
-        Math.min(params.conversionWeight, CVR_ADJUSTMENT_UPPER_BOUND)
-      );
-      const finalAdjustment: number = 1 + clampedAdjustment;
+  /**
+   * Get the bid modifier a criterion had before IFTTA first changed it.
+   * An empty string means the criterion was created by IFTTA.
+   *
+   * @param {string} key Parent resource name and criterion key
+   * @returns {string|undefined}
+   */
+  private static getBidModifierBase(key: string) {
+    const base = PropertiesService.getScriptProperties().getProperty(
+      `bidModifierBase:${key}`
+    );
 
-      console.log(
-        `Persisting CVR:  geo ${params.geo}, conv. weight ${finalAdjustment}`
-      );
-      campaignCvrDao.persistCvrForCampaigns(
-        campaings.map(entity => entity.resourceName),
-        finalAdjustment,
-        params.geo
-      );
-    }
+    return base === null ? undefined : base;
+  }
+
+  /**
+   * Store the bid modifier a criterion had before IFTTA first changed it.
+   *
+   * @param {string} key Parent resource name and criterion key
+   * @param {string} bidModifier Empty if the criterion was created by IFTTA
+   */
+  private static setBidModifierBase(key: string, bidModifier: string) {
+    PropertiesService.getScriptProperties().setProperty(
+      `bidModifierBase:${key}`,
+      bidModifier
+    );
+  }
+
+  /**
+   * Forget the original bid modifier of a criterion once it has been restored.
+   *
+   * @param {string} key Parent resource name and criterion key
+   */
+  private static deleteBidModifierBase(key: string) {
+    PropertiesService.getScriptProperties().deleteProperty(
+      `bidModifierBase:${key}`
+    );
   }
 
   /**
    * Check if supposed entity status matches its actual live status.
+   * Only the Enable/Pause action sets a status, other actions are skipped.
    *
    * @param {string} identifier
    * @param {GOOGLE_ADS_SELECTOR_TYPE} type
    * @param {GOOGLE_ADS_ACTION} action
-   * @param {boolean} evaluation
+   * @param {Evaluation} evaluation
    * @param {Parameters} params Additional parameters
    * @returns {string[]}
    */
@@ -239,15 +1536,17 @@ export class GoogleAds extends TargetAgent {
     identifier: string,
     type: GOOGLE_ADS_SELECTOR_TYPE,
     action: GOOGLE_ADS_ACTION,
-    evaluation: boolean,
+    evaluation: Evaluation,
     params: Parameters
   ) {
+    if (action !== GOOGLE_ADS_ACTION.TOGGLE) return [];
+
     const auth = new Auth(params.serviceAccount ?? undefined);
-    this.authToken = auth.getAuthToken();
+    this.authToken = auth.getAuthToken(this.scopes);
 
     this.parameters = params;
 
-    const expectedStatus = evaluation
+    const expectedStatus = this.toBoolean(evaluation)
       ? GOOGLE_ADS_ENTITY_STATUS.ENABLED
       : GOOGLE_ADS_ENTITY_STATUS.PAUSED;
     let entitiesToBeChecked: Entity[] = [];
@@ -275,6 +1574,28 @@ export class GoogleAds extends TargetAgent {
       entitiesToBeChecked = entitiesToBeChecked.concat(
         this.getAdGroupsByLabel(params.customerId, identifier)
       );
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_ID) {
+      entitiesToBeChecked = this.getKeywordsById(
+        params.customerId,
+        identifier.split(';')
+      );
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_LABEL) {
+      entitiesToBeChecked = this.getKeywordsByLabel(
+        params.customerId,
+        identifier
+      );
+    } else if (type === GOOGLE_ADS_SELECTOR_TYPE.ASSET_GROUP_ID) {
+      entitiesToBeChecked = this.getAssetGroupsById(
+        params.customerId,
+        identifier.split(';')
+      );
+    } else if (GoogleAds.getFilteredEntity(type)) {
+      entitiesToBeChecked = this.getEntitiesByFilter(
+        params.customerId,
+        type,
+        identifier,
+        params.nameMatch
+      );
     }
 
     for (const entity of entitiesToBeChecked) {
@@ -289,26 +1610,144 @@ export class GoogleAds extends TargetAgent {
   }
 
   /**
-   * Update entity status.
+   * Update status of entities using a single batched mutate request.
+   * Entities which already have the desired status are skipped.
    *
-   * @param {string} path
-   * @param {Entity} entity
+   * Operations are batched per rule rather than across rules: the number of
+   * requests then grows with the number of rules instead of the entities
+   * they select, while failures are still reported in the Status column of
+   * the rule causing them and Flap Protection only records an update once
+   * the rule's entities were actually changed.
+   *
+   * @param {string} customerId
+   * @param {string} operationType Mutate operation, e.g. 'campaignOperation'
+   * @param {Entity[]} entities
    * @param {string} status
+   * @throws {Error} If any of the operations failed
    */
-  private updateEntityStatus(path: string, entity: Entity, status: string) {
-    const payload = {
-      operations: [
-        {
+  private updateEntitiesStatus(
+    customerId: string,
+    operationType: string,
+    entities: Entity[],
+    status: string
+  ) {
+    const entitiesToUpdate = entities.filter(entity => {
+      if (entity.status === status) {
+        console.log(`Skipping ${entity.resourceName}, already '${status}'`);
+        return false;
+      }
+      return true;
+    });
+
+    if (entitiesToUpdate.length === 0) return;
+
+    if (this.dryRun) {
+      entitiesToUpdate.forEach(entity =>
+        this.reportPlannedChange(
+          `Set status of ${entity.resourceName} to ${status}`
+        )
+      );
+      return;
+    }
+
+    const failures = this.mutate(
+      customerId,
+      entitiesToUpdate.map(entity => ({
+        [operationType]: {
           updateMask: 'status',
           update: {
             resourceName: entity.resourceName,
             status: status,
           },
         },
-      ],
-    };
+      }))
+    );
+
+    entitiesToUpdate.forEach((entity, index) => {
+      if (!(index in failures)) {
+        ChangeLog.getInstance().record(
+          entity.resourceName,
+          entity.status ?? '',
+          status
+        );
+      }
+    });
+
+    this.throwOnFailures(
+      entitiesToUpdate.map(entity => entity.resourceName),
+      failures
+    );
+  }
+
+  /**
+   * Send operations through googleAds:mutate with partial failure enabled.
+   * Operations are split into chunks of MAX_MUTATE_OPERATIONS.
+   *
+   * @param {string} customerId
+   * @param {Array<Record<string, Object>>} operations Mutate operations
+   * @returns {Record<number, string>} Error messages by operation index
+   */
+  private mutate(
+    customerId: string,
+    operations: Array<Record<string, Object>>
+  ) {
+    const path = `customers/${customerId}/googleAds:mutate`;
+    const failures: Record<number, string> = {};
+
+    for (
+      let offset = 0;
+      offset < operations.length;
+      offset += MAX_MUTATE_OPERATIONS
+    ) {
+      const res = this.fetchUrl(path, 'POST', {
+        mutateOperations: operations.slice(
+          offset,
+          offset + MAX_MUTATE_OPERATIONS
+        ),
+        partialFailure: true,
+      }) as MutateResponse;
+
+      for (const detail of res?.partialFailureError?.details ?? []) {
+        for (const error of detail.errors ?? []) {
+          const index = error.location?.fieldPathElements?.find(
+            element => element.fieldName === 'mutate_operations'
+          )?.index;
+
+          if (index !== undefined) {
+            failures[offset + index] = error.message;
+          }
+        }
+      }
+    }
+
+    // Cached search results no longer reflect the live state
+    this.clearCache();
+
+    return failures;
+  }
+
+  /**
+   * Throw a single error listing all failed operations, if any.
+   *
+   * @param {string[]} resourceNames Resource name for each operation
+   * @param {Record<number, string>} failures Error messages by operation index
+   * @throws {Error}
+   */
+  private throwOnFailures(
+    resourceNames: string[],
+    failures: Record<number, string>
+  ) {
+    const errors = Object.entries(failures).map(
+      ([index, message]) => `${resourceNames[Number(index)]}: ${message}`
+    );
 
-    this.fetchUrl(path, 'POST', payload);
+    if (errors.length) {
+      throw new Error(
+        `${errors.length}/${
+          resourceNames.length
+        } operations failed: ${errors.join('; ')}`
+      );
+    }
   }
 
   /**
@@ -361,11 +1800,7 @@ export class GoogleAds extends TargetAgent {
     status: string
   ) {
     const ads = this.getAdsById(customerId, ids);
-    const path = `customers/${customerId}/adGroupAds:mutate`;
-
-    for (const ad of ads) {
-      this.updateEntityStatus(path, ad, status);
-    }
+    this.updateEntitiesStatus(customerId, 'adGroupAdOperation', ads, status);
   }
 
   /**
@@ -381,11 +1816,7 @@ export class GoogleAds extends TargetAgent {
     status: string
   ) {
     const adGroups = this.getAdGroupsById(customerId, ids);
-    const path = `customers/${customerId}/adGroups:mutate`;
-
-    for (const adGroup of adGroups) {
-      this.updateEntityStatus(path, adGroup, status);
-    }
+    this.updateEntitiesStatus(customerId, 'adGroupOperation', adGroups, status);
   }
 
   /**
@@ -402,10 +1833,12 @@ export class GoogleAds extends TargetAgent {
   ) {
     const campaigns = this.getCampaingsById(customerId, ids);
 
-    const path = `customers/${customerId}/campaigns:mutate`;
-    for (const campaign of campaigns) {
-      this.updateEntityStatus(path, campaign, status);
-    }
+    this.updateEntitiesStatus(
+      customerId,
+      'campaignOperation',
+      campaigns,
+      status
+    );
   }
 
   /**
@@ -421,11 +1854,7 @@ export class GoogleAds extends TargetAgent {
     status: string
   ) {
     const ads = this.getAdsByLabel(customerId, label);
-    const path = `customers/${customerId}/adGroupAds:mutate`;
-
-    for (const ad of ads) {
-      this.updateEntityStatus(path, ad, status);
-    }
+    this.updateEntitiesStatus(customerId, 'adGroupAdOperation', ads, status);
   }
 
   /**
@@ -442,11 +1871,7 @@ export class GoogleAds extends TargetAgent {
   ) {
     const adGroups = this.getAdGroupsByLabel(customerId, label);
 
-    const path = `customers/${customerId}/adGroups:mutate`;
-
-    for (const adGroup of adGroups) {
-      this.updateEntityStatus(path, adGroup, status);
-    }
+    this.updateEntitiesStatus(customerId, 'adGroupOperation', adGroups, status);
   }
 
   /**
@@ -463,10 +1888,12 @@ export class GoogleAds extends TargetAgent {
   ) {
     const campaigns = this.getCampaignsByLabel(customerId, label);
 
-    const path = `customers/${customerId}/campaigns:mutate`;
-    for (const campaign of campaigns) {
-      this.updateEntityStatus(path, campaign, status);
-    }
+    this.updateEntitiesStatus(
+      customerId,
+      'campaignOperation',
+      campaigns,
+      status
+    );
   }
 
   /**
@@ -569,10 +1996,11 @@ export class GoogleAds extends TargetAgent {
 
     const path = `customers/${customerId}/googleAds:search`;
     const res = this.fetchUrl(path, 'POST', payload, true) as {
-      results: Array<Record<string, Entity>>;
+      results?: Array<Record<string, Entity>>;
     };
 
-    return res.results.map(result => {
+    // The API omits the results if nothing matched
+    return (res.results ?? []).map(result => {
       return {
         resourceName: result[entityName].resourceName,
         status: result[entityName]?.status,
@@ -734,4 +2162,214 @@ export class GoogleAds extends TargetAgent {
     `;
     return this.getEntitiesByQuery(customerId, query, 'campaign');
   }
+
+  /**
+   * Get keywords by ID(s).
+   * A keyword ID is unique per ad group only, so IDs given as
+   * '<adGroupId>~<keywordId>' select the keyword of that ad group, while
+   * plain IDs select the keywords of all ad groups containing them.
+   *
+   * @param {string} customerId
+   * @param {string[]} ids
+   * @returns {Entity[]}
+   */
+  private getKeywordsById(customerId: string, ids: string[]): Entity[] {
+    const resourceNames = ids
+      .filter(id => id.includes('~'))
+      .map(id => `customers/${customerId}/adGroupCriteria/${id.trim()}`);
+    const keywordIds = ids.filter(id => !id.includes('~'));
+    const conditions: string[] = [];
+
+    if (resourceNames.length) {
+      conditions.push(
+        `ad_group_criterion.resource_name IN ('${resourceNames.join("','")}')`
+      );
+    }
+    if (keywordIds.length) {
+      conditions.push(
+        `ad_group_criterion.criterion_id IN (${keywordIds.join(',')})`
+      );
+    }
+
+    // GAQL has no OR, so both kinds of IDs are queried separately
+    return conditions.flatMap(condition =>
+      this.getEntitiesByQuery(
+        customerId,
+        `
+          SELECT
+            ad_group_criterion.criterion_id,
+            ad_group_criterion.status
+          FROM ad_group_criterion
+          WHERE
+            ad_group_criterion.type = 'KEYWORD'
+            AND ${condition}
+        `,
+        'adGroupCriterion'
+      )
+    );
+  }
+
+  /**
+   * Get keywords by label.
+   *
+   * @param {string} customerId
+   * @param {string} label
+   * @returns {Entity[]}
+   */
+  private getKeywordsByLabel(customerId: string, label: string): Entity[] {
+    const labelResource = this.getKeywordLabelByName(customerId, label);
+
+    const query = `
+      SELECT
+        ad_group_criterion.criterion_id,
+        ad_group_criterion.status
+      FROM ad_group_criterion
+      WHERE
+        ad_group_criterion.type = 'KEYWORD'
+        AND ad_group_criterion.labels CONTAINS ANY ('${labelResource}')
+    `;
+
+    return this.getEntitiesByQuery(customerId, query, 'adGroupCriterion');
+  }
+
+  /**
+   * Get keyword label by name.
+   *
+   * @param {string} customerId
+   * @param {string} labelName
+   * @returns {string}
+   */
+  private getKeywordLabelByName(customerId: string, labelName: string) {
+    const query = `
+      SELECT
+        label.resource_name
+      FROM ad_group_criterion_label
+      WHERE
+        label.name = '${GoogleAds.escapeQueryString(labelName)}'
+    `;
+
+    const payload = {
+      query,
+    };
+
+    const path = `customers/${customerId}/googleAds:search`;
+    const res = this.fetchUrl(path, 'POST', payload, true) as {
+      results: Array<Record<'label', Entity>>;
+    };
+
+    if (!(res.results && res.results.length)) {
+      throw new Error(`Label ${labelName} not found`);
+    }
+
+    return res.results[0].label.resourceName;
+  }
+
+  /**
+   * Get Performance Max asset groups by ID(s).
+   *
+   * @param {string} customerId
+   * @param {string[]} ids
+   * @returns {Entity[]}
+   */
+  private getAssetGroupsById(customerId: string, ids: string[]): Entity[] {
+    const query = `
+      SELECT
+        asset_group.id,
+        asset_group.status
+      FROM asset_group
+      WHERE
+        asset_group.id IN (${ids.join(',')})
+    `;
+
+    return this.getEntitiesByQuery(customerId, query, 'assetGroup');
+  }
+
+  /**
+   * Get the entity selected by a name or GAQL filter selector type.
+   *
+   * @param {GOOGLE_ADS_SELECTOR_TYPE} type
+   * @returns {QueryableEntity|undefined}
+   */
+  private static getFilteredEntity(type: GOOGLE_ADS_SELECTOR_TYPE) {
+    const entity = NAME_SELECTORS[type] ?? QUERY_SELECTORS[type];
+
+    return entity ? QUERYABLE_ENTITIES[entity] : undefined;
+  }
+
+  /**
+   * Get (non-removed) entities by name or by a GAQL WHERE clause,
+   * according to the selector type.
+   *
+   * @param {string} customerId
+   * @param {GOOGLE_ADS_SELECTOR_TYPE} type
+   * @param {string} filter Name or WHERE clause
+   * @param {GOOGLE_ADS_NAME_MATCH=} nameMatch How names are matched
+   * @returns {Entity[]}
+   */
+  private getEntitiesByFilter(
+    customerId: string,
+    type: GOOGLE_ADS_SELECTOR_TYPE,
+    filter: string,
+    nameMatch?: GOOGLE_ADS_NAME_MATCH
+  ): Entity[] {
+    const entity = GoogleAds.getFilteredEntity(type) as QueryableEntity;
+    // GAQL has no parentheses, so filters are inserted as they are
+    const condition =
+      type in NAME_SELECTORS
+        ? GoogleAds.getNameCondition(entity.nameField, filter, nameMatch)
+        : filter;
+
+    const query = `
+      SELECT
+        ${entity.resource}.resource_name,
+        ${entity.resource}.status
+      FROM ${entity.resource}
+      WHERE
+        ${condition}
+        AND ${entity.resource}.status != 'REMOVED'
+        ${entity.condition ? `AND ${entity.condition}` : ''}
+    `;
+
+    return this.getEntitiesByQuery(customerId, query, entity.entityName);
+  }
+
+  /**
+   * Get a GAQL condition matching a name field.
+   * 'contains' matches literally, 'regex' uses RE2 syntax.
+   *
+   * @param {string} field
+   * @param {string} name
+   * @param {GOOGLE_ADS_NAME_MATCH=} nameMatch
+   * @returns {string}
+   * @throws {Error} If the name match is not supported
+   */
+  private static getNameCondition(
+    field: string,
+    name: string,
+    nameMatch: GOOGLE_ADS_NAME_MATCH = GOOGLE_ADS_NAME_MATCH.EXACT
+  ) {
+    switch (String(nameMatch || GOOGLE_ADS_NAME_MATCH.EXACT).toLowerCase()) {
+      case GOOGLE_ADS_NAME_MATCH.EXACT:
+        return `${field} = '${GoogleAds.escapeQueryString(name)}'`;
+      case GOOGLE_ADS_NAME_MATCH.CONTAINS:
+        // Wildcards are matched literally when enclosed in brackets
+        return `${field} LIKE '%${GoogleAds.escapeQueryString(
+          name.replace(/[[\]%_]/g, '[$&]')
+        )}%'`;
+      case GOOGLE_ADS_NAME_MATCH.REGEX:
+        return `${field} REGEXP_MATCH '${GoogleAds.escapeQueryString(name)}'`;
+      default:
+        throw new Error(`Name match '${nameMatch}' not supported`);
+    }
+  }
+
+  /**
+   * Escape a value for use in a quoted GAQL string literal.
+   *
+   * @param {string} value
+   * @returns {string}
+   */
+  private static escapeQueryString(value: string) {
+    return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
 }
@@ -0,0 +1,245 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Auth } from '../../src/helpers/auth';
+import { ChangeLog } from '../../src/helpers/change-log';
+import { GoogleAdsApiCampaignDaoImpl } from '../../src/dao/campaign_cvr';
+import { GoogleAdsApiClient } from '../../src/dao/google_ads_client';
+
+describe('GoogleAdsApiCampaignDaoImpl', () => {
+  const campaign = 'customers/1/campaigns/1';
+  const geos: Record<string, string> = {
+    'New York': 'geoTargetConstants/1023191',
+    Boston: 'geoTargetConstants/1018127',
+  };
+
+  let properties: Record<string, string>;
+  let mutateRequests: Array<{ path: string; payload: any }>;
+  let ruleSets: Array<{ resourceName: string; conversionValueRules: string[] }>;
+  let rules: Record<string, { geo: string; value: number }>;
+  let nextId: number;
+
+  const newDao = () =>
+    new GoogleAdsApiCampaignDaoImpl('1', 'token', undefined, '');
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+    properties = {};
+    mutateRequests = [];
+    ruleSets = [];
+    rules = {};
+    nextId = 10;
+
+    (global as any).PropertiesService = {
+      getScriptProperties: () => ({
+        getProperty: (key: string) => properties[key] ?? null,
+        setProperty: (key: string, value: string) => (properties[key] = value),
+        deleteProperty: (key: string) => delete properties[key],
+      }),
+    };
+
+    // Keeps the state of rules and rule sets like the API would
+    jest
+      .spyOn(GoogleAdsApiClient.prototype, 'makeApiCall')
+      .mockImplementation((path, method, payload: any) => {
+        if (path.endsWith('conversionValueRules:mutate')) {
+          mutateRequests.push({ path, payload });
+          const operation = payload.operations[0];
+          let resourceName = operation.remove ?? operation.update?.resourceName;
+
+          if (operation.create) {
+            resourceName = `customers/1/conversionValueRules/${nextId++}`;
+            rules[resourceName] = {
+              geo: operation.create.geoLocationCondition.geoTargetConstants[0],
+              value: operation.create.action.value,
+            };
+          } else if (operation.update) {
+            rules[resourceName].value = operation.update.action.value;
+          } else {
+            delete rules[resourceName];
+          }
+
+          return { results: [{ resourceName }] };
+        }
+
+        if (path.endsWith('conversionValueRuleSets:mutate')) {
+          mutateRequests.push({ path, payload });
+          const operation = payload.operations[0];
+          let resourceName = operation.remove ?? operation.update?.resourceName;
+
+          if (operation.create) {
+            resourceName = `customers/1/conversionValueRuleSets/${nextId++}`;
+            ruleSets.push({
+              resourceName,
+              conversionValueRules: operation.create.conversionValueRules,
+            });
+          } else if (operation.update) {
+            ruleSets[0].conversionValueRules =
+              operation.update.conversionValueRules;
+          } else {
+            ruleSets = [];
+          }
+
+          return { results: [{ resourceName }] };
+        }
+
+        const query: string = payload.query;
+
+        if (query.includes('geo_target_constant.name')) {
+          const name = query.match(/geo_target_constant.name = '(.+)'/)![1];
+          return {
+            results: [{ geoTargetConstant: { resourceName: geos[name] } }],
+          };
+        }
+        if (query.includes('conversion_value_rule_set')) {
+          return {
+            results: ruleSets.map(ruleSet => ({
+              conversionValueRuleSet: ruleSet,
+            })),
+          };
+        }
+
+        const rule = rules[query.match(/resource_name = '(.+)'/)![1]];
+        return {
+          results: [
+            {
+              conversionValueRule: {
+                action: { value: rule.value },
+                geoLocationCondition: { geoTargetConstants: [rule.geo] },
+              },
+            },
+          ],
+        };
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('Removes the CVR and CVR set it created', () => {
+    newDao().persistCvrForCampaigns([campaign], 1.25, 'New York');
+
+    expect(ruleSets).toEqual([
+      {
+        resourceName: 'customers/1/conversionValueRuleSets/11',
+        conversionValueRules: ['customers/1/conversionValueRules/10'],
+      },
+    ]);
+
+    newDao().disableAllCvrsForCampaigns([campaign], 'New York');
+
+    expect(ruleSets).toEqual([]);
+    expect(rules).toEqual({});
+    expect(properties).toEqual({});
+  });
+
+  it('Only reverts the CVRs of the disabled geo', () => {
+    newDao().persistCvrForCampaigns([campaign], 1.25, 'New York');
+    newDao().persistCvrForCampaigns([campaign], 1.5, 'Boston');
+
+    expect(ruleSets[0].conversionValueRules).toEqual([
+      'customers/1/conversionValueRules/10',
+      'customers/1/conversionValueRules/12',
+    ]);
+
+    newDao().disableAllCvrsForCampaigns([campaign], 'New York');
+
+    expect(ruleSets[0].conversionValueRules).toEqual([
+      'customers/1/conversionValueRules/12',
+    ]);
+    expect(rules).toEqual({
+      'customers/1/conversionValueRules/12': {
+        geo: geos['Boston'],
+        value: 1.5,
+      },
+    });
+
+    newDao().disableAllCvrsForCampaigns([campaign], 'Boston');
+
+    expect(ruleSets).toEqual([]);
+    expect(rules).toEqual({});
+    expect(properties).toEqual({});
+  });
+
+  it('Leaves CVRs created by someone else in place', () => {
+    ruleSets = [
+      {
+        resourceName: 'customers/1/conversionValueRuleSets/5',
+        conversionValueRules: ['customers/1/conversionValueRules/4'],
+      },
+    ];
+    rules = {
+      'customers/1/conversionValueRules/4': {
+        geo: geos['New York'],
+        value: 1.1,
+      },
+    };
+
+    const record = jest.spyOn(ChangeLog.prototype, 'record');
+
+    newDao().persistCvrForCampaigns([campaign], 1.25, 'New York');
+
+    expect(rules['customers/1/conversionValueRules/4'].value).toEqual(1.25);
+    expect(record).toHaveBeenCalledWith(
+      'customers/1/conversionValueRules/4',
+      'MULTIPLY 1.1',
+      'MULTIPLY 1.25'
+    );
+
+    newDao().disableAllCvrsForCampaigns([campaign], 'New York');
+
+    expect(ruleSets[0].conversionValueRules).toEqual([
+      'customers/1/conversionValueRules/4',
+    ]);
+    expect(rules['customers/1/conversionValueRules/4'].value).toEqual(1.1);
+    expect(properties).toEqual({});
+  });
+
+  it('Does nothing for campaigns without CVRs created by IFTTA', () => {
+    ruleSets = [
+      {
+        resourceName: 'customers/1/conversionValueRuleSets/5',
+        conversionValueRules: ['customers/1/conversionValueRules/4'],
+      },
+    ];
+
+    newDao().disableAllCvrsForCampaigns([campaign], 'New York');
+
+    expect(mutateRequests).toEqual([]);
+  });
+
+  it('Throws but keeps track of the CVRs it created if a step fails', () => {
+    const makeApiCall = jest.mocked(GoogleAdsApiClient.prototype.makeApiCall);
+    const fakeApi = makeApiCall.getMockImplementation()!;
+
+    makeApiCall.mockImplementation((path, method, payload) => {
+      if (path.endsWith('conversionValueRuleSets:mutate')) {
+        throw new Error('Rule set not created');
+      }
+      return fakeApi(path, method, payload);
+    });
+
+    expect(() =>
+      newDao().persistCvrForCampaigns([campaign], 1.25, 'New York')
+    ).toThrow('Rule set not created');
+
+    expect(
+      JSON.parse(properties[`cvr:${campaign}:${geos['New York']}`]).rules
+    ).toEqual(['customers/1/conversionValueRules/10']);
+  });
+});
@@ -29,3 +29,121 @@ test('Convert object into correct URL query string', () => {
 
   expect(query).toEqual('?one=1&two=2&three=4&three=5');
 });
+
+describe('prefetch', () => {
+  const response = (code: number, content: string) => ({
+    getResponseCode: () => code,
+    getContentText: () => content,
+  });
+
+  it('Fetches unique requests concurrently and serves them from cache', () => {
+    const fetchAll = jest.fn(() => [
+      response(200, '{"temp":25}'),
+      response(500, 'error'),
+    ]);
+    const fetch = jest.fn(() => response(200, '{"temp":30}'));
+    (global as any).UrlFetchApp = { fetchAll, fetch };
+
+    const helper = new ApiHelper();
+
+    helper.prefetch([
+      { url: 'https://example.com/weather', queryParams: { city: 'Berlin' } },
+      { url: 'https://example.com/weather', queryParams: { city: 'Berlin' } },
+      { url: 'https://example.com/weather', queryParams: { city: 'Hamburg' } },
+    ]);
+
+    expect(fetchAll).toHaveBeenCalledTimes(1);
+    expect((fetchAll.mock.calls[0] as unknown[])[0]).toHaveLength(2);
+
+    // Served from prefetch
+    expect(
+      helper.callApi('https://example.com/weather', undefined, {
+        city: 'Berlin',
+      })
+    ).toEqual({ temp: 25 });
+    expect(fetch).not.toHaveBeenCalled();
+
+    // Failed prefetch is fetched again
+    expect(
+      helper.callApi('https://example.com/weather', undefined, {
+        city: 'Hamburg',
+      })
+    ).toEqual({ temp: 30 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('persistent cache', () => {
+  const response = (code: number, content: string) => ({
+    getResponseCode: () => code,
+    getContentText: () => content,
+  });
+
+  let store: Record<string, string>;
+  let put: jest.Mock;
+
+  beforeEach(() => {
+    store = {};
+    put = jest.fn((key: string, value: string) => (store[key] = value));
+
+    (global as any).CacheService = {
+      getScriptCache: () => ({ get: (key: string) => store[key] ?? null, put }),
+    };
+    (global as any).Utilities = {
+      DigestAlgorithm: { SHA_256: 'SHA_256' },
+      computeDigest: (_: string, value: string) => value,
+      base64Encode: (value: string) => `hash-${value.length}`,
+    };
+  });
+
+  it('Caches results across executions with the given TTL', () => {
+    const fetch = jest.fn(() => response(200, '{"temp":25}'));
+    (global as any).UrlFetchApp = { fetch };
+
+    const args = [
+      'https://example.com/weather',
+      undefined,
+      { city: 'Berlin' },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      600,
+    ] as const;
+
+    expect(new ApiHelper().callApi(...args)).toEqual({ temp: 25 });
+    expect(put).toHaveBeenCalledWith(expect.any(String), '{"temp":25}', 600);
+
+    // A new execution is served from the persistent cache
+    expect(new ApiHelper().callApi(...args)).toEqual({ temp: 25 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('Caps the TTL at the CacheService maximum', () => {
+    (global as any).UrlFetchApp = {
+      fetch: () => response(200, '{"temp":25}'),
+    };
+
+    new ApiHelper().callApi(
+      'https://example.com/weather',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      86400
+    );
+
+    expect(put).toHaveBeenCalledWith(expect.any(String), '{"temp":25}', 21600);
+  });
+
+  it('Does not use the persistent cache without TTL', () => {
+    const fetch = jest.fn(() => response(200, '{"temp":25}'));
+    (global as any).UrlFetchApp = { fetch };
+
+    new ApiHelper().callApi('https://example.com/weather');
+
+    expect(put).not.toHaveBeenCalled();
+  });
+});
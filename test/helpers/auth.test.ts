@@ -0,0 +1,107 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Auth } from '../../src/helpers/auth';
+
+/**
+ * Create a fake OAuth2 service supporting the builder calls used by Auth.
+ *
+ * @param {Record<string, unknown>} methods
+ * @returns {Record<string, unknown>}
+ */
+function fakeService(methods: Record<string, unknown>) {
+  const service: Record<string, unknown> = { ...methods };
+
+  for (const setter of [
+    'setTokenUrl',
+    'setPrivateKey',
+    'setIssuer',
+    'setSubject',
+    'setPropertyStore',
+    'setParam',
+    'setScope',
+  ]) {
+    service[setter] = (value: unknown) => {
+      (methods[setter] as Function | undefined)?.(value);
+      return service;
+    };
+  }
+
+  return service;
+}
+
+describe('Auth', () => {
+  const serviceAccount = {
+    private_key: 'key',
+    client_email: 'robot@project.iam.gserviceaccount.com',
+  };
+
+  let createService: jest.Mock;
+  let setScope: jest.Mock;
+
+  beforeEach(() => {
+    setScope = jest.fn();
+
+    createService = jest.fn((name: string) =>
+      fakeService({
+        hasAccess: () => true,
+        getAccessToken: () => `token for ${name}`,
+        setScope,
+      })
+    );
+
+    (global as any).OAuth2 = { createService };
+    (global as any).PropertiesService = { getScriptProperties: () => ({}) };
+    (global as any).Utilities = {
+      DigestAlgorithm: { SHA_256: 'SHA_256' },
+      computeDigest: (_: string, value: string) => value,
+      base64EncodeWebSafe: (value: string) => value,
+    };
+  });
+
+  it('Requests service account tokens for the given scopes', () => {
+    const auth = new Auth(JSON.stringify(serviceAccount));
+
+    auth.getAuthToken(['https://www.googleapis.com/auth/adwords']);
+
+    expect(setScope).toHaveBeenCalledWith(
+      'https://www.googleapis.com/auth/adwords'
+    );
+  });
+
+  it('Caches service account tokens per scope', () => {
+    const auth = new Auth({ ...serviceAccount, client_email: 'cache@test' });
+
+    const adsToken = auth.getAuthToken(['scope-a']);
+    expect(auth.getAuthToken(['scope-a'])).toEqual(adsToken);
+    expect(auth.getAuthToken(['scope-b'])).not.toEqual(adsToken);
+
+    expect(createService).toHaveBeenCalledTimes(2);
+  });
+
+  it('Throws if the service account cannot be authorized', () => {
+    createService.mockImplementationOnce(() =>
+      fakeService({
+        hasAccess: () => false,
+        getLastError: () => 'invalid_grant',
+      })
+    );
+
+    const auth = new Auth({ ...serviceAccount, client_email: 'fail@test' });
+
+    expect(() => auth.getAuthToken(['scope-a'])).toThrow('invalid_grant');
+  });
+});
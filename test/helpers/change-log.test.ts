@@ -0,0 +1,61 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../../src/config';
+import { ChangeLog } from '../../src/helpers/change-log';
+import { SheetsService } from '../../src/helpers/sheets';
+
+describe('ChangeLog', () => {
+  it('Records changes with the current rule context', () => {
+    const changeLog = new ChangeLog();
+
+    changeLog.setContext('Sunny days', 'Google Ads', true);
+    changeLog.record('customers/1/adGroups/2', 'PAUSED', 'ENABLED');
+
+    const [entry] = changeLog.getEntries();
+
+    expect(entry.slice(1)).toEqual([
+      'Sunny days',
+      'Google Ads',
+      'customers/1/adGroups/2',
+      'PAUSED',
+      'ENABLED',
+      'true',
+    ]);
+  });
+
+  it('Appends recorded changes to the change log sheet on flush', () => {
+    const appendRows = jest.fn();
+    jest
+      .spyOn(SheetsService, 'getInstance')
+      .mockReturnValue({ appendRows } as unknown as SheetsService);
+
+    const changeLog = new ChangeLog();
+
+    changeLog.flush();
+    expect(appendRows).not.toHaveBeenCalled();
+
+    changeLog.record('customers/1/campaigns/3', 'ENABLED', 'PAUSED');
+    changeLog.flush();
+
+    expect(appendRows).toHaveBeenCalledWith(
+      CONFIG.changeLog.sheetName,
+      [expect.arrayContaining(['customers/1/campaigns/3'])],
+      CONFIG.changeLog.headers
+    );
+    expect(changeLog.getEntries()).toEqual([]);
+  });
+});
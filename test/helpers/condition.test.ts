@@ -0,0 +1,71 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Condition } from '../../src/helpers/condition';
+
+describe('Condition', () => {
+  const values = {
+    result: {
+      '0': { current: { temp: '27.5', condition: 'Sunny' } },
+      '1': { pollen: { grass: 3, tree: '' } },
+    },
+  };
+
+  it('Evaluates comparisons of result values', () => {
+    expect(
+      Condition.evaluate(
+        'result.0.current.temp > 25 && result.1.pollen.grass >= 3',
+        values
+      )
+    ).toBe(true);
+    expect(Condition.evaluate('result.1.pollen.grass < 3', values)).toBe(false);
+    expect(
+      Condition.evaluate("result.0.current.condition == 'Sunny'", values)
+    ).toBe(true);
+    expect(Condition.evaluate('result.1.pollen.tree != 0', values)).toBe(true);
+  });
+
+  it('Respects operator precedence and parentheses', () => {
+    expect(Condition.evaluate('1 + 2 * 3', values)).toEqual(7);
+    expect(Condition.evaluate('(1 + 2) * 3', values)).toEqual(9);
+    expect(Condition.evaluate('false || true && false', values)).toBe(false);
+    expect(Condition.evaluate('!(false || TRUE)', values)).toBe(false);
+    expect(Condition.evaluate('-result.1.pollen.grass + 1', values)).toEqual(
+      -2
+    );
+  });
+
+  it('Returns non-boolean values as they are', () => {
+    expect(Condition.evaluate('result.0.current.temp * 2', values)).toEqual(55);
+    expect(Condition.evaluate('"a" + "b"', values)).toEqual('ab');
+  });
+
+  it('Throws on invalid expressions', () => {
+    expect(() =>
+      Condition.evaluate('result.0.current.wind > 1', values)
+    ).toThrow(
+      "Invalid condition 'result.0.current.wind > 1': unknown value 'result.0.current.wind'"
+    );
+    expect(() => Condition.evaluate('result.0 > 1', values)).toThrow(
+      "'result.0' is not a single value"
+    );
+    expect(() => Condition.evaluate('(1 > 0', values)).toThrow("missing ')'");
+    expect(() => Condition.evaluate('1 >', values)).toThrow('unexpected end');
+    expect(() => Condition.evaluate('alert(1); 1', values)).toThrow(
+      'unexpected character at position 9'
+    );
+  });
+});
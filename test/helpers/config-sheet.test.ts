@@ -0,0 +1,79 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CONFIG } from '../../src/config';
+import { ConfigSheet } from '../../src/helpers/config-sheet';
+import { SheetsService } from '../../src/helpers/sheets';
+
+describe('ConfigSheet', () => {
+  const defaults = JSON.parse(JSON.stringify(CONFIG));
+
+  afterEach(() => {
+    Object.assign(CONFIG, JSON.parse(JSON.stringify(defaults)));
+  });
+
+  it('Overrides settings with values of matching type', () => {
+    ConfigSheet.apply([
+      ['Key', 'Value'],
+      ['rules.sheetName', 'Weather Rules'],
+      ['rules.startRow', '3'],
+      ['resultNamespace', 'res'],
+      ['limits.maxParallelRequests', 10],
+      ['rules.defaultUpdateInterval', ''],
+    ]);
+
+    expect(CONFIG.rules.sheetName).toEqual('Weather Rules');
+    expect(CONFIG.rules.startRow).toEqual(3);
+    expect(CONFIG.resultNamespace).toEqual('res');
+    expect(CONFIG.limits.maxParallelRequests).toEqual(10);
+    expect(CONFIG.rules.defaultUpdateInterval).toEqual(0);
+    expect(CONFIG.rules.cols).toEqual(defaults.rules.cols);
+  });
+
+  it('Throws on unknown keys', () => {
+    expect(() => ConfigSheet.apply([['rules.cols.status', 'State']])).toThrow(
+      "Unknown config key: 'rules.cols.status'"
+    );
+  });
+
+  it('Throws on invalid numbers', () => {
+    expect(() =>
+      ConfigSheet.apply([['limits.maxExecutionTime', 'abc']])
+    ).toThrow("Invalid number for config key 'limits.maxExecutionTime': abc");
+  });
+
+  it('Throws on numbers out of range', () => {
+    expect(() => ConfigSheet.apply([['rules.startRow', '0']])).toThrow(
+      "Invalid number for config key 'rules.startRow': 0"
+    );
+    expect(() => ConfigSheet.apply([['rules.startRow', '1.5']])).toThrow(
+      "Invalid number for config key 'rules.startRow': 1.5"
+    );
+    expect(() =>
+      ConfigSheet.apply([['limits.maxParallelRequests', '0']])
+    ).toThrow("Invalid number for config key 'limits.maxParallelRequests': 0");
+  });
+
+  it('Keeps the defaults without config sheet', () => {
+    jest.spyOn(SheetsService, 'getInstance').mockReturnValue({
+      getRangeData: () => [[]],
+    } as unknown as SheetsService);
+
+    ConfigSheet.load();
+
+    expect(CONFIG).toEqual(defaults);
+  });
+});
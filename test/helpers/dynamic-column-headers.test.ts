@@ -132,6 +132,42 @@ test('Get mapped values for all namespaces and multiple groups', () => {
   expect(mappedValues).toStrictEqual(expected);
 });
 
+test('Get mapped values for request method and nested body', () => {
+  const columnHeaderHelper = new DynamicColumnHeaders([
+    'source:url',
+    'source:method',
+    'source:contentType',
+    'source:body.query',
+    'source:body.variables.city',
+  ]);
+  const mappedValues = columnHeaderHelper.getMappedValues(
+    [
+      'https://example.com/graphql',
+      'POST',
+      'application/json',
+      'query ($city: String) { weather(city: $city) { temp } }',
+      'Berlin',
+    ],
+    'source'
+  );
+
+  const expected = {
+    '0': {
+      url: 'https://example.com/graphql',
+      method: 'POST',
+      contentType: 'application/json',
+      body: {
+        query: 'query ($city: String) { weather(city: $city) { temp } }',
+        variables: {
+          city: 'Berlin',
+        },
+      },
+    },
+  };
+
+  expect(mappedValues).toStrictEqual(expected);
+});
+
 test('Return -1 for first column with namespace for none existing namespace', () => {
   const columnHeaderHelper = new DynamicColumnHeaders(headers);
   const index = columnHeaderHelper.getFirstColWithNamespace('res');
@@ -0,0 +1,97 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FlapProtection } from '../../src/helpers/flap-protection';
+
+const hour = 3600 * 1000;
+
+describe('FlapProtection', () => {
+  it('Is only enabled with a dwell time or more than one evaluation', () => {
+    expect(FlapProtection.isEnabled({})).toBe(false);
+    expect(FlapProtection.isEnabled({ consecutiveEvaluations: '1' })).toBe(
+      false
+    );
+    expect(FlapProtection.isEnabled({ consecutiveEvaluations: '2' })).toBe(
+      true
+    );
+    expect(FlapProtection.isEnabled({ minDwellTime: 3 })).toBe(true);
+  });
+
+  it('Holds evaluations until enough consecutive ones were seen', () => {
+    const settings = { consecutiveEvaluations: 2 };
+
+    const first = FlapProtection.check(undefined, true, settings, 0);
+    expect(first.apply).toBe(false);
+    expect(first.reason).toEqual('1/2 consecutive evaluations');
+
+    const second = FlapProtection.check(first.state, true, settings, hour);
+    expect(second.apply).toBe(true);
+    expect(second.state).toEqual({
+      evaluation: 'true',
+      count: 2,
+      applied: 'true',
+      appliedAt: hour,
+    });
+  });
+
+  it('Resets the count when the evaluation flips', () => {
+    const settings = { consecutiveEvaluations: 2 };
+    const state = {
+      evaluation: 'true',
+      count: 5,
+      applied: 'true',
+      appliedAt: 0,
+    };
+
+    const res = FlapProtection.check(state, false, settings, hour);
+
+    expect(res.apply).toBe(false);
+    expect(res.state.count).toEqual(1);
+  });
+
+  it('Holds evaluations until the minimum dwell time has passed', () => {
+    const settings = { minDwellTime: 3 };
+    const state = {
+      evaluation: 'true',
+      count: 1,
+      applied: 'true',
+      appliedAt: 0,
+    };
+
+    const early = FlapProtection.check(state, false, settings, 2 * hour);
+    expect(early.apply).toBe(false);
+    expect(early.reason).toEqual('Minimum dwell time of 3h not reached');
+
+    const late = FlapProtection.check(state, false, settings, 3 * hour);
+    expect(late.apply).toBe(true);
+    expect(late.state.appliedAt).toEqual(3 * hour);
+  });
+
+  it('Always applies the evaluation already in place', () => {
+    const settings = { minDwellTime: 3, consecutiveEvaluations: 4 };
+    const state = {
+      evaluation: 'false',
+      count: 1,
+      applied: 'true',
+      appliedAt: 0,
+    };
+
+    const res = FlapProtection.check(state, true, settings, hour);
+
+    expect(res.apply).toBe(true);
+    expect(res.state.appliedAt).toEqual(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DynamicColumnHeaders } from '../../src/helpers/dynamic-column-headers';
+import { RuleColumns } from '../../src/helpers/rule-columns';
+
+describe('RuleColumns', () => {
+  const headers = [
+    'Target Identifier',
+    'Target Identifier Type',
+    'My notes',
+    'target agent',
+    'Target-Action',
+    'result:temperature',
+    'Status',
+    'lastUpdate',
+    'Update Interval',
+    'Activation Formula',
+    'Rule Name',
+  ];
+
+  it('Resolves reordered columns by header text', () => {
+    const ruleColumns = new RuleColumns(headers);
+
+    expect(ruleColumns.getIndex('targetId')).toEqual(0);
+    expect(ruleColumns.getIndex('targetIdType')).toEqual(1);
+    expect(ruleColumns.getIndex('ruleName')).toEqual(10);
+  });
+
+  it('Ignores case, spaces and punctuation', () => {
+    const ruleColumns = new RuleColumns(headers);
+
+    expect(ruleColumns.getIndex('targetAgent')).toEqual(3);
+    expect(ruleColumns.getIndex('targetAction')).toEqual(4);
+    expect(ruleColumns.getIndex('lastUpdate')).toEqual(7);
+  });
+
+  it('Returns values of a row', () => {
+    const ruleColumns = new RuleColumns(headers);
+    const row = headers.map((_, index) => `v${index}`);
+
+    expect(ruleColumns.getValue(row, 'status')).toEqual('v6');
+  });
+
+  it('Ignores dynamic columns', () => {
+    expect(
+      () => new RuleColumns(['rule:Status', ...headers.slice(0, 6)])
+    ).toThrow(
+      'Missing column(s): Rule Name, Last Update, Status, Activation Formula, Update Interval'
+    );
+  });
+
+  it('Allows optional columns to be missing', () => {
+    const ruleColumns = new RuleColumns(headers);
+    const row = headers.map((_, index) => `v${index}`);
+
+    expect(ruleColumns.getIndex('enabled')).toEqual(-1);
+    expect(ruleColumns.getValue(row, 'enabled')).toBeUndefined();
+    expect(
+      new RuleColumns([...headers, 'Enabled']).getIndex('enabled')
+    ).toEqual(11);
+  });
+
+  it('Throws on missing columns', () => {
+    expect(
+      () => new RuleColumns(headers.filter(header => header !== 'Status'))
+    ).toThrow('Missing column(s): Status');
+  });
+});
+
+describe('DynamicColumnHeaders.getColsWithNamespace', () => {
+  it('Returns all columns of a namespace', () => {
+    const helper = new DynamicColumnHeaders([
+      'Rule Name',
+      'result:a',
+      'source:url',
+      'result.1:b',
+      'result:c',
+    ]);
+
+    expect(helper.getColsWithNamespace('result')).toEqual([1, 3, 4]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { RunState } from '../../src/helpers/run-state';
+
+describe('RunState', () => {
+  const progress = {
+    runId: 'abc',
+    mode: 2,
+    sheetName: 'Rules',
+    rowIndex: 5,
+  };
+
+  let properties: Record<string, string>;
+  let triggers: Array<{ getHandlerFunction: () => string }>;
+  let after: jest.Mock;
+  let create: jest.Mock;
+  let deleteTrigger: jest.Mock;
+
+  const newTrigger = (handler: string) => ({
+    getHandlerFunction: () => handler,
+  });
+
+  beforeEach(() => {
+    properties = {};
+    triggers = [newTrigger('main'), newTrigger('resume')];
+    create = jest.fn();
+    after = jest.fn(() => ({ create }));
+    deleteTrigger = jest.fn();
+
+    (global as any).PropertiesService = {
+      getScriptProperties: () => ({
+        getProperty: (key: string) => properties[key] ?? null,
+        setProperty: (key: string, value: string) => (properties[key] = value),
+        deleteProperty: (key: string) => delete properties[key],
+      }),
+    };
+    (global as any).ScriptApp = {
+      getProjectTriggers: () => triggers,
+      deleteTrigger,
+      newTrigger: jest.fn(() => ({ timeBased: () => ({ after }) })),
+    };
+  });
+
+  it('Loads the saved progress', () => {
+    expect(RunState.load()).toBeUndefined();
+
+    RunState.save(progress);
+
+    expect(RunState.load()).toEqual(progress);
+  });
+
+  it('Clears the progress and continuation triggers', () => {
+    RunState.save(progress);
+    RunState.clear();
+
+    expect(RunState.load()).toBeUndefined();
+    expect(deleteTrigger).toHaveBeenCalledTimes(1);
+    expect(deleteTrigger).toHaveBeenCalledWith(triggers[1]);
+  });
+
+  it('Replaces pending continuation triggers', () => {
+    RunState.scheduleContinuation();
+
+    expect(deleteTrigger).toHaveBeenCalledWith(triggers[1]);
+    expect(ScriptApp.newTrigger).toHaveBeenCalledWith('resume');
+    expect(after).toHaveBeenCalledWith(60 * 1000);
+    expect(create).toHaveBeenCalled();
+  });
+});
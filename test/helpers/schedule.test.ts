@@ -0,0 +1,104 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Schedule } from '../../src/helpers/schedule';
+
+describe('Schedule', () => {
+  const hour = 3600 * 1000;
+  // Wednesday, 2023-05-10 12:30 UTC (14:30 in Berlin)
+  const now = Date.UTC(2023, 4, 10, 12, 30);
+
+  it('Treats numbers as hours since the last update', () => {
+    expect(Schedule.check(2, now - hour, now, 'UTC')).toEqual({ due: false });
+    expect(Schedule.check('2', now - 3 * hour, now, 'UTC')).toEqual({
+      due: true,
+    });
+    expect(Schedule.check(0, now, now, 'UTC')).toEqual({ due: true });
+  });
+
+  it('Checks active time windows', () => {
+    expect(Schedule.check('Mon-Fri 06:00-22:00', 0, now, 'UTC').due).toBe(true);
+    expect(Schedule.check('Sat,Sun', 0, now, 'UTC').due).toBe(false);
+    expect(Schedule.check('13:00-14:00', 0, now, 'UTC').due).toBe(false);
+    expect(Schedule.check('13:00-14:00 Europe/Berlin', 0, now, 'UTC').due).toBe(
+      false
+    );
+    expect(Schedule.check('14:00-15:00 Europe/Berlin', 0, now, 'UTC').due).toBe(
+      true
+    );
+    expect(Schedule.check('22:00-13:00', 0, now, 'UTC').due).toBe(true);
+  });
+
+  it('Forces a state outside of the window', () => {
+    expect(Schedule.check('Sat-Sun else FALSE', 0, now, 'UTC')).toEqual({
+      due: true,
+      forcedEvaluation: false,
+    });
+    expect(Schedule.check('Mon-Fri else FALSE', 0, now, 'UTC')).toEqual({
+      due: true,
+    });
+  });
+
+  it('Accepts a time zone before the forced state', () => {
+    expect(
+      Schedule.check(
+        'Mon-Fri 06:00-14:00 Europe/Berlin else FALSE',
+        0,
+        now,
+        'UTC'
+      )
+    ).toEqual({ due: true, forcedEvaluation: false });
+    expect(
+      Schedule.check(
+        'Mon-Fri 06:00-22:00 Europe/Berlin else FALSE',
+        0,
+        now,
+        'UTC'
+      )
+    ).toEqual({ due: true });
+  });
+
+  it('Checks if a cron expression matched since the last update', () => {
+    expect(Schedule.check('0 * * * *', now - hour, now, 'UTC').due).toBe(true);
+    expect(
+      Schedule.check('0 * * * *', now - 20 * 60 * 1000, now, 'UTC').due
+    ).toBe(false);
+    expect(Schedule.check('0 8 * * Mon-Fri', now - hour, now, 'UTC').due).toBe(
+      false
+    );
+    expect(
+      Schedule.check('0 8 * * Mon-Fri', now - 24 * hour, now, 'UTC').due
+    ).toBe(true);
+    expect(
+      Schedule.check('0 8 * * Sat,Sun', now - 24 * hour, now, 'UTC').due
+    ).toBe(false);
+    expect(Schedule.check('*/15 14 * * *', now - hour, now, 'UTC').due).toBe(
+      false
+    );
+    expect(
+      Schedule.check('*/15 14 * * * Europe/Berlin', now - hour, now, 'UTC').due
+    ).toBe(true);
+  });
+
+  it('Throws on invalid specs', () => {
+    expect(() => Schedule.check('daily', 0, now, 'UTC')).toThrow(
+      "Invalid update interval: 'daily'"
+    );
+    expect(() => Schedule.check('60 * * * *', 0, now, 'UTC')).toThrow(
+      "Invalid update interval: '60 * * * *'"
+    );
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { DynamicColumnHeaders } from '../../src/helpers/dynamic-column-headers';
+import { Secrets } from '../../src/helpers/secrets';
+
+describe('Secrets', () => {
+  const properties: Record<string, string> = {
+    'secret:API_KEY': 'abc123',
+    'secret:TOKEN': 'xyz',
+    spreadsheetId: '1',
+  };
+
+  beforeEach(() => {
+    (global as any).PropertiesService = {
+      getScriptProperties: () => ({
+        getProperty: (key: string) => properties[key] ?? null,
+        getKeys: () => Object.keys(properties),
+      }),
+    };
+  });
+
+  it('Resolves secret references within values', () => {
+    expect(Secrets.resolve('{{secret:API_KEY}}')).toEqual('abc123');
+    expect(Secrets.resolve('Bearer {{secret:TOKEN}}')).toEqual('Bearer xyz');
+  });
+
+  it('Leaves other values untouched', () => {
+    expect(Secrets.resolve('plain')).toEqual('plain');
+    expect(Secrets.resolve(12)).toEqual(12);
+  });
+
+  it('Throws on unknown secrets', () => {
+    expect(() => Secrets.resolve('{{secret:MISSING}}')).toThrow(
+      "Unknown secret: 'MISSING'"
+    );
+  });
+
+  it('Lists the names of stored secrets only', () => {
+    expect(Secrets.list()).toEqual(['API_KEY', 'TOKEN']);
+  });
+
+  it('Resolves secrets in mapped column values', () => {
+    const columnHeaderHelper = new DynamicColumnHeaders([
+      'source:url',
+      'source:headers.x-api-key',
+    ]);
+
+    const mappedValues = columnHeaderHelper.getMappedValues(
+      ['https://example.com', '{{secret:API_KEY}}'],
+      'source',
+      false
+    );
+
+    expect(mappedValues).toStrictEqual({
+      url: 'https://example.com',
+      headers: { 'x-api-key': 'abc123' },
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SheetsService } from '../../src/helpers/sheets';
+
+describe('SheetsService', () => {
+  const getRange = jest.fn(() => ({ getValues: () => [['a', 'b']] }));
+
+  beforeEach(() => {
+    const sheets = ['Rules', 'Rules (Weather)', 'Rules+Stock', 'Config'];
+
+    getRange.mockClear();
+
+    (global as any).SpreadsheetApp = {
+      getActiveSpreadsheet: () => ({
+        getSheets: () => sheets.map(name => ({ getName: () => name })),
+        getSheetByName: () => ({
+          getLastRow: () => 2,
+          getLastColumn: () => 2,
+          getRange,
+        }),
+      }),
+    };
+  });
+
+  it('Returns the sheet matching a name exactly', () => {
+    expect(new SheetsService().getSheetNames('Rules')).toEqual(['Rules']);
+  });
+
+  it('Returns all sheets matching a pattern', () => {
+    expect(new SheetsService().getSheetNames('Rules*')).toEqual([
+      'Rules',
+      'Rules (Weather)',
+      'Rules+Stock',
+    ]);
+    expect(new SheetsService().getSheetNames('Rules (*)')).toEqual([
+      'Rules (Weather)',
+    ]);
+  });
+
+  it('Leaves out excluded sheets', () => {
+    expect(new SheetsService().getSheetNames('*', ['Config'])).toEqual([
+      'Rules',
+      'Rules (Weather)',
+      'Rules+Stock',
+    ]);
+  });
+
+  it('Returns all rows from the start row', () => {
+    expect(new SheetsService().getRangeData('Rules', 2, 1)).toEqual([
+      ['a', 'b'],
+    ]);
+    expect(getRange).toHaveBeenCalledWith(2, 1, 1, 2);
+  });
+
+  it('Returns an empty result if the sheet ends before the start row', () => {
+    expect(new SheetsService().getRangeData('Rules', 5, 1)).toEqual([[]]);
+    expect(getRange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Copyright 2023 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *       http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ApiHelper } from '../../src/helpers/api';
+import { Auth } from '../../src/helpers/auth';
+import { SourceAuth, SOURCE_AUTH_TYPE } from '../../src/helpers/source-auth';
+
+describe('SourceAuth', () => {
+  const request = { url: 'https://example.com/api' };
+  let cachePut: jest.Mock;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    cachePut = jest.fn();
+
+    (global as any).CacheService = {
+      getScriptCache: () => ({ get: () => null, put: cachePut }),
+    };
+    (global as any).Utilities = {
+      DigestAlgorithm: { SHA_256: 'SHA_256' },
+      computeDigest: (_: string, value: string) => value,
+      base64Encode: (value: string) => Buffer.from(value).toString('base64'),
+    };
+  });
+
+  it('Adds Basic auth header from user and password', () => {
+    const res = new SourceAuth().apply(
+      { type: SOURCE_AUTH_TYPE.BASIC, user: 'user', password: 'secret' },
+      request
+    );
+
+    expect(res.headers).toEqual({ Authorization: 'Basic dXNlcjpzZWNyZXQ=' });
+  });
+
+  it('Adds API key as header or query parameter', () => {
+    const sourceAuth = new SourceAuth();
+
+    expect(
+      sourceAuth.apply({ type: SOURCE_AUTH_TYPE.API_KEY, key: 'abc' }, request)
+        .headers
+    ).toEqual({ 'x-api-key': 'abc' });
+
+    expect(
+      sourceAuth.apply(
+        { type: SOURCE_AUTH_TYPE.API_KEY, key: 'abc', param: 'appid' },
+        request
+      ).queryParams
+    ).toEqual({ appid: 'abc' });
+  });
+
+  it('Adds Google identity bearer token', () => {
+    jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('google');
+
+    const res = new SourceAuth().apply(
+      { type: SOURCE_AUTH_TYPE.GOOGLE },
+      request
+    );
+
+    expect(res.headers).toEqual({ Authorization: 'Bearer google' });
+  });
+
+  it('Exchanges and caches OAuth2 client credentials tokens', () => {
+    const callApiSpy = jest
+      .spyOn(ApiHelper.prototype, 'callApi')
+      .mockReturnValue({ access_token: 'token', expires_in: 3600 });
+
+    const sourceAuth = new SourceAuth();
+    const auth = {
+      type: SOURCE_AUTH_TYPE.OAUTH2_CLIENT_CREDENTIALS,
+      tokenUrl: 'https://example.com/token',
+      clientId: 'id',
+      clientSecret: 'secret',
+    };
+
+    expect(sourceAuth.apply(auth, request).headers).toEqual({
+      Authorization: 'Bearer token',
+    });
+    sourceAuth.apply(auth, request);
+
+    expect(callApiSpy).toHaveBeenCalledTimes(1);
+    expect(callApiSpy).toHaveBeenCalledWith(
+      'https://example.com/token',
+      undefined,
+      undefined,
+      {
+        grant_type: 'client_credentials',
+        client_id: 'id',
+        client_secret: 'secret',
+      },
+      'post',
+      'application/x-www-form-urlencoded'
+    );
+    expect(cachePut).toHaveBeenCalledWith(expect.any(String), 'token', 3540);
+  });
+
+  it('Throws on missing client credentials parameters', () => {
+    expect(() =>
+      new SourceAuth().apply(
+        { type: SOURCE_AUTH_TYPE.OAUTH2_CLIENT_CREDENTIALS, clientId: 'id' },
+        request
+      )
+    ).toThrow('Missing source auth parameter: tokenUrl');
+  });
+});
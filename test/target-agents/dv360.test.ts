@@ -66,6 +66,74 @@ describe('DV360 Target Agent', () => {
     });
   });
 
+  describe('process with entity already in desired status', () => {
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+    });
+
+    it('Skips updating an already active Line Item', () => {
+      const dv360 = new DV360();
+
+      // Set up spies
+      const fetchUrlSpy = jest
+        .spyOn(DV360.prototype as any, 'fetchUrl')
+        .mockReturnValue({ entityStatus: 'ENTITY_STATUS_ACTIVE' });
+
+      // Call function
+      dv360.setDryRun(false);
+      dv360.process(
+        '1234',
+        DV360_ENTITY_TYPE.LINE_ITEM,
+        DV360_ACTION.TOGGLE,
+        true,
+        params
+      );
+
+      // Evaluate
+      expect(fetchUrlSpy).toHaveBeenCalledTimes(1);
+      expect(fetchUrlSpy).toHaveBeenCalledWith(
+        'https://displayvideo.googleapis.com/v2/advertisers/1/lineItems/1234'
+      );
+    });
+  });
+
+  describe('process in dry-run mode', () => {
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+    });
+
+    it('Reports Line Item change without sending it', () => {
+      const dv360 = new DV360();
+
+      // Set up spies
+      const fetchUrlSpy = jest
+        .spyOn(DV360.prototype as any, 'fetchUrl')
+        .mockReturnValue(null);
+
+      // Call function
+      dv360.setDryRun(true);
+      dv360.process(
+        '1234',
+        DV360_ENTITY_TYPE.LINE_ITEM,
+        DV360_ACTION.TOGGLE,
+        false,
+        params
+      );
+
+      // Evaluate
+      expect(fetchUrlSpy).not.toHaveBeenCalledWith(
+        expect.any(String),
+        'patch',
+        expect.anything()
+      );
+      expect(dv360.getPlannedChanges()).toEqual([
+        'Set status of 1234 to ENTITY_STATUS_PAUSED',
+      ]);
+    });
+  });
+
   describe('validate', () => {
     it('Validates Line Items status match correctly', () => {
       const dv360 = new DV360();
@@ -20,6 +20,9 @@ import {
   GOOGLE_ADS_ENTITY_STATUS,
   GOOGLE_ADS_SELECTOR_TYPE,
   GOOGLE_ADS_ACTION,
+  GOOGLE_ADS_BUDGET_MODE,
+  GOOGLE_ADS_CRITERION_TYPE,
+  GOOGLE_ADS_NAME_MATCH,
 } from '../../src/target-agents/google-ads';
 
 describe('Google Ads Target Agent', () => {
@@ -44,6 +47,22 @@ describe('Google Ads Target Agent', () => {
     fieldMask: 'adGroupAd.ad.id,adGroupAd.status',
   };
 
+  const singlePausedAdByIdRaw = {
+    results: [
+      {
+        adGroupAd: {
+          resourceName: 'customers/1/adGroupAds/1111~1234',
+          status: 'PAUSED',
+          ad: {
+            resourceName: 'customers/1/ads/1234',
+            id: '1234',
+          },
+        },
+      },
+    ],
+    fieldMask: 'adGroupAd.ad.id,adGroupAd.status',
+  };
+
   const singleAdById = {
     resourceName: 'customers/1/adGroupAds/1111~1234',
     status: 'ENABLED',
@@ -79,7 +98,7 @@ describe('Google Ads Target Agent', () => {
 
         jest
           .spyOn(GoogleAds.prototype as any, 'fetchUrl')
-          .mockReturnValue(singleAdByIdRaw);
+          .mockReturnValue(singlePausedAdByIdRaw);
 
         const updateAdStatusByIdSpy = jest.spyOn(
           GoogleAds.prototype as any,
@@ -88,7 +107,7 @@ describe('Google Ads Target Agent', () => {
 
         const updateEntityStatusSpy = jest.spyOn(
           GoogleAds.prototype as any,
-          'updateEntityStatus'
+          'updateEntitiesStatus'
         );
 
         const getAdsByIdSpy = jest.spyOn(
@@ -125,7 +144,7 @@ describe('Google Ads Target Agent', () => {
 
         jest
           .spyOn(GoogleAds.prototype as any, 'fetchUrl')
-          .mockReturnValue(singleAdByIdRaw);
+          .mockReturnValue(singlePausedAdByIdRaw);
 
         const updateAdStatusByIdSpy = jest.spyOn(
           GoogleAds.prototype as any,
@@ -134,7 +153,7 @@ describe('Google Ads Target Agent', () => {
 
         const updateEntityStatusSpy = jest.spyOn(
           GoogleAds.prototype as any,
-          'updateEntityStatus'
+          'updateEntitiesStatus'
         );
 
         const getAdsByIdSpy = jest.spyOn(
@@ -164,6 +183,343 @@ describe('Google Ads Target Agent', () => {
       });
     });
 
+    describe('When the evaluation is not a boolean', () => {
+      it('Pauses Ads for evaluations like FALSE', () => {
+        const ads = new GoogleAds();
+
+        jest
+          .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+          .mockReturnValue(singleAdByIdRaw);
+
+        const updateAdStatusByIdSpy = jest.spyOn(
+          GoogleAds.prototype as any,
+          'updateAdStatusById'
+        );
+
+        ads.process(
+          '1234',
+          GOOGLE_ADS_SELECTOR_TYPE.AD_ID,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          'FALSE',
+          params
+        );
+
+        expect(updateAdStatusByIdSpy).toHaveBeenCalledWith(
+          '1',
+          ['1234'],
+          GOOGLE_ADS_ENTITY_STATUS.PAUSED
+        );
+      });
+    });
+
+    describe('When selecting keywords and asset groups', () => {
+      let requests: any[];
+
+      beforeEach(() => {
+        jest.restoreAllMocks();
+        jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+        requests = [];
+
+        jest
+          .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+          .mockImplementation((path, method, payload: any) => {
+            requests.push(payload);
+
+            if (String(path).endsWith('googleAds:mutate')) return {};
+            if (payload.query.includes('FROM ad_group_criterion_label')) {
+              return {
+                results: [{ label: { resourceName: 'customers/1/labels/9' } }],
+              };
+            }
+
+            return {
+              results: [
+                {
+                  adGroupCriterion: {
+                    resourceName: 'customers/1/adGroupCriteria/2~3',
+                    status: 'ENABLED',
+                  },
+                  assetGroup: {
+                    resourceName: 'customers/1/assetGroups/4',
+                    status: 'ENABLED',
+                  },
+                },
+              ],
+            };
+          });
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('Pauses keywords by label', () => {
+        const ads = new GoogleAds();
+
+        ads.process(
+          "Weather 'Hot'",
+          GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_LABEL,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          false,
+          params
+        );
+
+        expect(requests[0].query).toContain("label.name = 'Weather \\'Hot\\''");
+        expect(requests[1].query).toContain(
+          "ad_group_criterion.labels CONTAINS ANY ('customers/1/labels/9')"
+        );
+        expect(requests[2].mutateOperations).toEqual([
+          {
+            adGroupCriterionOperation: {
+              updateMask: 'status',
+              update: {
+                resourceName: 'customers/1/adGroupCriteria/2~3',
+                status: 'PAUSED',
+              },
+            },
+          },
+        ]);
+      });
+
+      it('Selects keywords of single ad groups by ad group and keyword ID', () => {
+        const ads = new GoogleAds();
+
+        ads.process(
+          '2~3;5',
+          GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_ID,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          false,
+          params
+        );
+
+        expect(requests[0].query).toContain(
+          "ad_group_criterion.resource_name IN ('customers/1/adGroupCriteria/2~3')"
+        );
+        expect(requests[1].query).toContain(
+          'ad_group_criterion.criterion_id IN (5)'
+        );
+      });
+
+      it('Pauses asset groups by name', () => {
+        const ads = new GoogleAds();
+
+        ads.process(
+          "Fans 'Heatwave'",
+          GOOGLE_ADS_SELECTOR_TYPE.ASSET_GROUP_NAME,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          false,
+          params
+        );
+
+        expect(requests[0].query).toContain(
+          "asset_group.name = 'Fans \\'Heatwave\\''"
+        );
+        expect(
+          requests[1].mutateOperations[0].assetGroupOperation.update
+        ).toEqual({
+          resourceName: 'customers/1/assetGroups/4',
+          status: 'PAUSED',
+        });
+      });
+    });
+
+    describe('When selecting entities by name or GAQL filter', () => {
+      let queries: string[];
+
+      beforeEach(() => {
+        jest.restoreAllMocks();
+        jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+        queries = [];
+
+        jest
+          .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+          .mockImplementation((path, method, payload: any) => {
+            queries.push(payload.query);
+
+            return { results: [] };
+          });
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it('Matches campaign names containing a text literally', () => {
+        new GoogleAds().process(
+          '_WEATHER_RAIN_',
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_NAME,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          true,
+          { ...params, nameMatch: GOOGLE_ADS_NAME_MATCH.CONTAINS }
+        );
+
+        expect(queries[0]).toContain(
+          "campaign.name LIKE '%[_]WEATHER[_]RAIN[_]%'"
+        );
+        expect(queries[0]).toContain("campaign.status != 'REMOVED'");
+      });
+
+      it('Matches ad group names by regular expression', () => {
+        new GoogleAds().process(
+          '^Fans_(DE|AT)$',
+          GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_NAME,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          true,
+          { ...params, nameMatch: GOOGLE_ADS_NAME_MATCH.REGEX }
+        );
+
+        expect(queries[0]).toContain(
+          "ad_group.name REGEXP_MATCH '^Fans_(DE|AT)$'"
+        );
+      });
+
+      it('Uses a GAQL filter as WHERE clause', () => {
+        new GoogleAds().process(
+          "campaign.advertising_channel_type = 'SEARCH'",
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_QUERY,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          true,
+          params
+        );
+
+        expect(queries[0]).toMatch(
+          /FROM campaign\s+WHERE\s+campaign.advertising_channel_type = 'SEARCH'\s+AND campaign.status != 'REMOVED'/
+        );
+      });
+
+      it('Does nothing if no entities match', () => {
+        jest.spyOn(GoogleAds.prototype as any, 'fetchUrl').mockReturnValue({});
+
+        expect(() => {
+          new GoogleAds().process(
+            'Unknown',
+            GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_NAME,
+            GOOGLE_ADS_ACTION.TOGGLE,
+            true,
+            params
+          );
+        }).not.toThrow();
+      });
+
+      it('Restricts keyword filters to positive keywords', () => {
+        new GoogleAds().process(
+          "ad_group.name = 'Fans'",
+          GOOGLE_ADS_SELECTOR_TYPE.KEYWORD_QUERY,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          true,
+          params
+        );
+
+        expect(queries[0]).toContain("ad_group_criterion.type = 'KEYWORD'");
+        expect(queries[0]).toContain('ad_group_criterion.negative = FALSE');
+      });
+    });
+
+    describe('When mutating multiple entities', () => {
+      it('Sends a single mutate request and reports partial failures', () => {
+        jest.restoreAllMocks();
+        jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+        const ads = new GoogleAds();
+
+        const adGroupsRaw = {
+          results: [1, 2, 3].map(id => ({
+            adGroup: {
+              resourceName: `customers/1/adGroups/${id}`,
+              status: 'ENABLED',
+            },
+          })),
+        };
+
+        const mutateRes = {
+          partialFailureError: {
+            message: 'Failed',
+            details: [
+              {
+                errors: [
+                  {
+                    message: 'Not allowed',
+                    location: {
+                      fieldPathElements: [
+                        { fieldName: 'mutate_operations', index: 1 },
+                      ],
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        };
+
+        // Set up spies
+        const fetchUrlSpy = jest
+          .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+          .mockImplementation(path =>
+            String(path).endsWith('googleAds:mutate') ? mutateRes : adGroupsRaw
+          );
+
+        // Call function
+        expect(() => {
+          ads.process(
+            '1;2;3',
+            GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_ID,
+            GOOGLE_ADS_ACTION.TOGGLE,
+            false,
+            params
+          );
+        }).toThrow(
+          '1/3 operations failed: customers/1/adGroups/2: Not allowed'
+        );
+
+        // Evaluate
+        expect(fetchUrlSpy).toHaveBeenCalledTimes(2);
+        expect(fetchUrlSpy).toHaveBeenLastCalledWith(
+          'customers/1/googleAds:mutate',
+          'POST',
+          {
+            mutateOperations: [1, 2, 3].map(id => ({
+              adGroupOperation: {
+                updateMask: 'status',
+                update: {
+                  resourceName: `customers/1/adGroups/${id}`,
+                  status: 'PAUSED',
+                },
+              },
+            })),
+            partialFailure: true,
+          }
+        );
+      });
+    });
+
+    describe('When the entity is already in the desired status', () => {
+      it('Skips the mutation', () => {
+        jest.restoreAllMocks();
+        jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+        const ads = new GoogleAds();
+
+        // Set up spies
+        const fetchUrlSpy = jest
+          .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+          .mockReturnValue(singleAdByIdRaw);
+
+        // Call function
+        ads.process(
+          '1234',
+          GOOGLE_ADS_SELECTOR_TYPE.AD_ID,
+          GOOGLE_ADS_ACTION.TOGGLE,
+          true,
+          params
+        );
+
+        // Evaluate
+        expect(fetchUrlSpy).toHaveBeenCalledTimes(1);
+      });
+    });
+
     describe('When handling the manage campaign CVR target action', () => {
       it("Throws an error if the conversion weight target param weight isn't supplied", () => {
         const ads = new GoogleAds();
@@ -184,6 +540,36 @@ describe('Google Ads Target Agent', () => {
         }).toThrow(/conversion weight/);
       });
 
+      it('Uses a numeric evaluation as conversion weight', () => {
+        const ads = new GoogleAds();
+
+        // Fails on the geo instead of the missing conversion weight param
+        expect(() => {
+          ads.process(
+            '1234',
+            GOOGLE_ADS_SELECTOR_TYPE.AD_ID,
+            GOOGLE_ADS_ACTION.MANAGE_CONV_VALUE_RULE,
+            0.25,
+            { ...params, evaluationAsValue: true }
+          );
+        }).toThrow(/geo/);
+      });
+
+      it('Treats numeric evaluations as on/off unless opted in', () => {
+        const ads = new GoogleAds();
+
+        // 1 is on, so the missing conversion weight param is needed
+        expect(() => {
+          ads.process(
+            '1234',
+            GOOGLE_ADS_SELECTOR_TYPE.AD_ID,
+            GOOGLE_ADS_ACTION.MANAGE_CONV_VALUE_RULE,
+            1,
+            { ...params, geo: 'New York' }
+          );
+        }).toThrow(/conversion weight/);
+      });
+
       it("Throws an error if the geo target param isn't supplied supplied", () => {
         const ads = new GoogleAds();
         const manageCvrParams = {
@@ -205,6 +591,685 @@ describe('Google Ads Target Agent', () => {
     });
   });
 
+  describe('When handling the set budget target action', () => {
+    let properties: Record<string, string>;
+    let mutateRequests: any[];
+
+    const campaignsRaw = {
+      results: [1, 2, 3].map(id => ({
+        campaign: { resourceName: `customers/1/campaigns/${id}` },
+      })),
+    };
+
+    const budgetsRaw = {
+      results: [
+        {
+          campaignBudget: {
+            resourceName: 'customers/1/campaignBudgets/10',
+            amountMicros: '100000000',
+          },
+        },
+        {
+          campaignBudget: {
+            resourceName: 'customers/1/campaignBudgets/10',
+            amountMicros: '100000000',
+          },
+        },
+        {
+          campaignBudget: {
+            resourceName: 'customers/1/campaignBudgets/20',
+            amountMicros: '50000000',
+            explicitlyShared: true,
+          },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+      properties = {};
+      mutateRequests = [];
+
+      (global as any).PropertiesService = {
+        getScriptProperties: () => ({
+          getProperty: (key: string) => properties[key] ?? null,
+          setProperty: (key: string, value: string) =>
+            (properties[key] = value),
+          deleteProperty: (key: string) => delete properties[key],
+        }),
+      };
+
+      jest
+        .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+        .mockImplementation((path, method, payload: any) => {
+          if (String(path).endsWith('googleAds:mutate')) {
+            mutateRequests.push(payload);
+            return {};
+          }
+
+          return payload.query.includes('campaign_budget')
+            ? budgetsRaw
+            : campaignsRaw;
+        });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('Sets budgets shared by campaigns once and skips shared budgets', () => {
+      const ads = new GoogleAds();
+
+      expect(() => {
+        ads.process(
+          '1;2;3',
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+          GOOGLE_ADS_ACTION.SET_BUDGET,
+          150,
+          { ...params, evaluationAsValue: true }
+        );
+      }).toThrow(/campaignBudgets\/20: shared budget not updated/);
+
+      expect(mutateRequests).toHaveLength(1);
+      expect(mutateRequests[0].mutateOperations).toEqual([
+        {
+          campaignBudgetOperation: {
+            updateMask: 'amount_micros',
+            update: {
+              resourceName: 'customers/1/campaignBudgets/10',
+              amountMicros: '150000000',
+            },
+          },
+        },
+      ]);
+      expect(properties['budgetBase:customers/1/campaignBudgets/10']).toEqual(
+        '100000000'
+      );
+    });
+
+    it('Scales budgets by percentage within the guardrails', () => {
+      const ads = new GoogleAds();
+
+      ads.process(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+        GOOGLE_ADS_ACTION.SET_BUDGET,
+        true,
+        {
+          ...params,
+          budgetMode: GOOGLE_ADS_BUDGET_MODE.PERCENTAGE,
+          budgetValue: 30,
+          maxBudget: 120,
+          updateSharedBudgets: 'TRUE',
+        }
+      );
+
+      expect(
+        mutateRequests[0].mutateOperations.map(
+          (operation: any) => operation.campaignBudgetOperation.update
+        )
+      ).toEqual([
+        {
+          resourceName: 'customers/1/campaignBudgets/10',
+          amountMicros: '120000000',
+        },
+        {
+          resourceName: 'customers/1/campaignBudgets/20',
+          amountMicros: '65000000',
+        },
+      ]);
+    });
+
+    it('Restores the original budget if the evaluation is off', () => {
+      const ads = new GoogleAds();
+
+      properties['budgetBase:customers/1/campaignBudgets/10'] = '80000000';
+
+      expect(() => {
+        ads.process(
+          '1',
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+          GOOGLE_ADS_ACTION.SET_BUDGET,
+          false,
+          params
+        );
+      }).toThrow(/shared budget/);
+
+      expect(
+        mutateRequests[0].mutateOperations[0].campaignBudgetOperation.update
+          .amountMicros
+      ).toEqual('80000000');
+      expect(properties).toEqual({});
+    });
+
+    it('Restores the original budget if a numeric evaluation is 0', () => {
+      const ads = new GoogleAds();
+
+      properties['budgetBase:customers/1/campaignBudgets/10'] = '80000000';
+
+      expect(() => {
+        ads.process(
+          '1',
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+          GOOGLE_ADS_ACTION.SET_BUDGET,
+          0,
+          { ...params, evaluationAsValue: true }
+        );
+      }).toThrow(/shared budget/);
+
+      expect(
+        mutateRequests[0].mutateOperations[0].campaignBudgetOperation.update
+          .amountMicros
+      ).toEqual('80000000');
+    });
+  });
+
+  describe('When handling the set bid modifier target action', () => {
+    let properties: Record<string, string>;
+    let mutateRequests: any[];
+
+    const criteriaRaw = {
+      results: [
+        {
+          campaignCriterion: {
+            resourceName: 'customers/1/campaignCriteria/1~1023191',
+            campaign: 'customers/1/campaigns/1',
+            bidModifier: 1.1,
+            location: { geoTargetConstant: 'geoTargetConstants/1023191' },
+          },
+        },
+        {
+          campaignCriterion: {
+            resourceName: 'customers/1/campaignCriteria/1~1014221',
+            campaign: 'customers/1/campaigns/1',
+            location: { geoTargetConstant: 'geoTargetConstants/1014221' },
+          },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+      properties = {};
+      mutateRequests = [];
+
+      (global as any).PropertiesService = {
+        getScriptProperties: () => ({
+          getProperty: (key: string) => properties[key] ?? null,
+          setProperty: (key: string, value: string) =>
+            (properties[key] = value),
+          deleteProperty: (key: string) => delete properties[key],
+        }),
+      };
+
+      jest
+        .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+        .mockImplementation((path, method, payload: any) => {
+          if (String(path).endsWith('googleAds:mutate')) {
+            mutateRequests.push(payload);
+            return {};
+          }
+
+          return payload.query.includes('FROM campaign_criterion')
+            ? criteriaRaw
+            : {
+                results: [
+                  { campaign: { resourceName: 'customers/1/campaigns/1' } },
+                ],
+              };
+        });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('Updates existing and creates missing location criteria', () => {
+      const ads = new GoogleAds();
+
+      ads.process(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+        GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+        30,
+        {
+          ...params,
+          evaluationAsValue: true,
+          criterionType: GOOGLE_ADS_CRITERION_TYPE.LOCATION,
+          criteria: '1023191;1014044',
+        }
+      );
+
+      expect(mutateRequests[0].mutateOperations).toEqual([
+        {
+          campaignCriterionOperation: {
+            updateMask: 'bid_modifier',
+            update: {
+              resourceName: 'customers/1/campaignCriteria/1~1023191',
+              bidModifier: 1.3,
+            },
+          },
+        },
+        {
+          campaignCriterionOperation: {
+            create: {
+              location: { geoTargetConstant: 'geoTargetConstants/1014044' },
+              campaign: 'customers/1/campaigns/1',
+              bidModifier: 1.3,
+            },
+          },
+        },
+      ]);
+      expect(properties).toEqual({
+        'bidModifierBase:customers/1/campaigns/1:geoTargetConstants/1023191':
+          '1.1',
+        'bidModifierBase:customers/1/campaigns/1:geoTargetConstants/1014044':
+          '',
+      });
+    });
+
+    it('Restores changed and removes created criteria if the evaluation is off', () => {
+      const ads = new GoogleAds();
+
+      properties[
+        'bidModifierBase:customers/1/campaigns/1:geoTargetConstants/1023191'
+      ] = '1.2';
+      properties[
+        'bidModifierBase:customers/1/campaigns/1:geoTargetConstants/1014221'
+      ] = '';
+
+      ads.process(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+        GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+        false,
+        {
+          ...params,
+          evaluationAsValue: true,
+          criterionType: GOOGLE_ADS_CRITERION_TYPE.LOCATION,
+          criteria: '1023191;1014221;1014044',
+        }
+      );
+
+      expect(mutateRequests[0].mutateOperations).toEqual([
+        {
+          campaignCriterionOperation: {
+            updateMask: 'bid_modifier',
+            update: {
+              resourceName: 'customers/1/campaignCriteria/1~1023191',
+              bidModifier: 1.2,
+            },
+          },
+        },
+        {
+          campaignCriterionOperation: {
+            remove: 'customers/1/campaignCriteria/1~1014221',
+          },
+        },
+      ]);
+      expect(properties).toEqual({});
+    });
+
+    it('Leaves criteria not changed by IFTTA alone if the evaluation is off', () => {
+      const ads = new GoogleAds();
+
+      ads.setDryRun(true);
+      ads.process(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+        GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+        false,
+        {
+          ...params,
+          evaluationAsValue: true,
+          criterionType: GOOGLE_ADS_CRITERION_TYPE.LOCATION,
+          criteria: '1023191;1014221;1014044',
+        }
+      );
+
+      expect(mutateRequests).toEqual([]);
+      expect(ads.getPlannedChanges()).toEqual([]);
+    });
+
+    it('Does not add the first ad schedule of a campaign', () => {
+      const ads = new GoogleAds();
+
+      jest
+        .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+        .mockImplementation((path, method, payload: any) =>
+          payload.query.includes('FROM campaign_criterion')
+            ? { results: [] }
+            : {
+                results: [
+                  { campaign: { resourceName: 'customers/1/campaigns/1' } },
+                ],
+              }
+        );
+
+      expect(() => {
+        ads.process(
+          '1',
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+          GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+          30,
+          {
+            ...params,
+            evaluationAsValue: true,
+            criterionType: GOOGLE_ADS_CRITERION_TYPE.AD_SCHEDULE,
+            criteria: 'MONDAY 06:00-22:00',
+          }
+        );
+      }).toThrow(
+        'No AD_SCHEDULE criteria to adjust, none added to: customers/1/campaigns/1'
+      );
+    });
+
+    it('Selects only the fields of the criterion type', () => {
+      const ads = new GoogleAds();
+      const fetchUrl = jest.spyOn(GoogleAds.prototype as any, 'fetchUrl');
+
+      ads.process(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+        GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+        30,
+        {
+          ...params,
+          evaluationAsValue: true,
+          criterionType: GOOGLE_ADS_CRITERION_TYPE.LOCATION,
+          criteria: '1023191',
+        }
+      );
+
+      const query = (fetchUrl.mock.calls as any[]).find(call =>
+        call[2].query?.includes('FROM campaign_criterion')
+      )[2].query;
+
+      expect(query).toContain(
+        'campaign_criterion.location.geo_target_constant'
+      );
+      expect(query).not.toContain('device');
+      expect(query).not.toContain('ad_schedule');
+    });
+
+    it('Sets device modifiers of ad groups as ad group bid modifiers', () => {
+      const ads = new GoogleAds();
+
+      jest
+        .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+        .mockImplementation((path, method, payload: any) => {
+          if (String(path).endsWith('googleAds:mutate')) {
+            mutateRequests.push(payload);
+            return {};
+          }
+
+          return payload.query.includes('FROM ad_group_bid_modifier')
+            ? {
+                results: [
+                  {
+                    adGroupBidModifier: {
+                      resourceName: 'customers/1/adGroupBidModifiers/1~30001',
+                      adGroup: 'customers/1/adGroups/1',
+                      bidModifier: 1.2,
+                      device: { type: 'MOBILE' },
+                    },
+                  },
+                ],
+              }
+            : {
+                results: [
+                  { adGroup: { resourceName: 'customers/1/adGroups/1' } },
+                ],
+              };
+        });
+
+      ads.process(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_ID,
+        GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+        -50,
+        {
+          ...params,
+          evaluationAsValue: true,
+          criterionType: GOOGLE_ADS_CRITERION_TYPE.DEVICE,
+          criteria: 'MOBILE;TABLET',
+        }
+      );
+
+      expect(mutateRequests[0].mutateOperations).toEqual([
+        {
+          adGroupBidModifierOperation: {
+            updateMask: 'bid_modifier',
+            update: {
+              resourceName: 'customers/1/adGroupBidModifiers/1~30001',
+              bidModifier: 0.5,
+            },
+          },
+        },
+        {
+          adGroupBidModifierOperation: {
+            create: {
+              device: { type: 'TABLET' },
+              adGroup: 'customers/1/adGroups/1',
+              bidModifier: 0.5,
+            },
+          },
+        },
+      ]);
+    });
+
+    it('Rejects ad schedules for ad groups', () => {
+      const ads = new GoogleAds();
+
+      jest.spyOn(GoogleAds.prototype as any, 'fetchUrl').mockReturnValue({
+        results: [{ adGroup: { resourceName: 'customers/1/adGroups/1' } }],
+      });
+
+      expect(() => {
+        ads.process(
+          '1',
+          GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_ID,
+          GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+          30,
+          {
+            ...params,
+            evaluationAsValue: true,
+            criterionType: GOOGLE_ADS_CRITERION_TYPE.AD_SCHEDULE,
+            criteria: 'MONDAY 06:00-22:00',
+          }
+        );
+      }).toThrow(
+        "Criterion type 'AD_SCHEDULE' not supported for ad groups, select campaigns instead"
+      );
+    });
+
+    it('Throws on invalid criteria', () => {
+      const ads = new GoogleAds();
+
+      expect(() => {
+        ads.process(
+          '1',
+          GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+          GOOGLE_ADS_ACTION.SET_BID_MODIFIER,
+          30,
+          {
+            ...params,
+            evaluationAsValue: true,
+            criterionType: GOOGLE_ADS_CRITERION_TYPE.AD_SCHEDULE,
+            criteria: 'MONDAY 6-22',
+          }
+        );
+      }).toThrow("Invalid ad schedule criterion: 'MONDAY 6-22'");
+    });
+  });
+
+  describe('When handling the set customizer target action', () => {
+    let mutateRequests: any[];
+    let attributeResults: any[];
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(Auth.prototype, 'getAuthToken').mockReturnValue('');
+
+      mutateRequests = [];
+      attributeResults = [
+        {
+          customizerAttribute: {
+            resourceName: 'customers/1/customizerAttributes/7',
+            type: 'TEXT',
+          },
+        },
+      ];
+
+      jest
+        .spyOn(GoogleAds.prototype as any, 'fetchUrl')
+        .mockImplementation((path, method, payload: any) => {
+          if (String(path).endsWith('googleAds:mutate')) {
+            mutateRequests.push(payload);
+            return {};
+          }
+
+          if (payload.query.includes('FROM customizer_attribute')) {
+            return { results: attributeResults };
+          }
+          if (payload.query.includes('FROM ad_group_customizer')) {
+            return {
+              results: [
+                {
+                  adGroupCustomizer: {
+                    resourceName: 'customers/1/adGroupCustomizers/1~7',
+                    adGroup: 'customers/1/adGroups/1',
+                    value: { type: 'TEXT', stringValue: '21°C' },
+                  },
+                },
+              ],
+            };
+          }
+          if (payload.query.includes('FROM customer_customizer')) {
+            return {
+              results: [
+                {
+                  customerCustomizer: {
+                    resourceName: 'customers/2/customerCustomizers/7',
+                    value: { type: 'TEXT', stringValue: '21°C' },
+                  },
+                },
+              ],
+            };
+          }
+
+          return {
+            results: [
+              { adGroup: { resourceName: 'customers/1/adGroups/1' } },
+              { adGroup: { resourceName: 'customers/1/adGroups/2' } },
+            ],
+          };
+        });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('Replaces existing and creates missing ad group values', () => {
+      const ads = new GoogleAds();
+
+      ads.process(
+        '1;2',
+        GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_ID,
+        GOOGLE_ADS_ACTION.SET_CUSTOMIZER,
+        '28°C',
+        { ...params, customizerAttribute: 'Temperature' }
+      );
+
+      const value = { type: 'TEXT', stringValue: '28°C' };
+
+      expect(mutateRequests[0].mutateOperations).toEqual([
+        {
+          adGroupCustomizerOperation: {
+            remove: 'customers/1/adGroupCustomizers/1~7',
+          },
+        },
+        {
+          adGroupCustomizerOperation: {
+            create: {
+              adGroup: 'customers/1/adGroups/1',
+              customizerAttribute: 'customers/1/customizerAttributes/7',
+              value,
+            },
+          },
+        },
+        {
+          adGroupCustomizerOperation: {
+            create: {
+              adGroup: 'customers/1/adGroups/2',
+              customizerAttribute: 'customers/1/customizerAttributes/7',
+              value,
+            },
+          },
+        },
+      ]);
+    });
+
+    it('Removes the account value if the evaluation is off', () => {
+      const ads = new GoogleAds();
+
+      ads.setDryRun(true);
+      ads.process(
+        '2',
+        GOOGLE_ADS_SELECTOR_TYPE.CUSTOMER_ID,
+        GOOGLE_ADS_ACTION.SET_CUSTOMIZER,
+        false,
+        { ...params, customizerAttribute: 'Temperature' }
+      );
+
+      expect(mutateRequests).toEqual([]);
+      expect(ads.getPlannedChanges()).toEqual([
+        'Remove customizer value of customers/2 (Temperature)',
+      ]);
+    });
+
+    it('Writes values which look like off as they are', () => {
+      const ads = new GoogleAds();
+
+      ads.setDryRun(true);
+      [0, 'no', 'FALSE'].forEach(evaluation =>
+        ads.process(
+          '2',
+          GOOGLE_ADS_SELECTOR_TYPE.CUSTOMER_ID,
+          GOOGLE_ADS_ACTION.SET_CUSTOMIZER,
+          evaluation,
+          { ...params, customizerAttribute: 'Temperature' }
+        )
+      );
+
+      expect(ads.getPlannedChanges()).toEqual([
+        "Set customizer value of customers/2 (Temperature) to '0'",
+        "Set customizer value of customers/2 (Temperature) to 'no'",
+        'Remove customizer value of customers/2 (Temperature)',
+      ]);
+    });
+
+    it('Throws if the customizer attribute does not exist', () => {
+      const ads = new GoogleAds();
+      attributeResults = [];
+
+      expect(() => {
+        ads.process(
+          '1',
+          GOOGLE_ADS_SELECTOR_TYPE.AD_GROUP_ID,
+          GOOGLE_ADS_ACTION.SET_CUSTOMIZER,
+          '28°C',
+          { ...params, customizerAttribute: 'Temperature' }
+        );
+      }).toThrow('Customizer attribute Temperature not found');
+    });
+  });
+
   describe('validate', () => {
     it('Validates Ad status match correctly', () => {
       const ads = new GoogleAds();
@@ -266,5 +1331,22 @@ describe('Google Ads Target Agent', () => {
       expect(getAdsByIdSpy).toHaveBeenCalled();
       expect(res).toEqual(expected);
     });
+
+    it('Skips actions which do not set a status', () => {
+      const ads = new GoogleAds();
+
+      const fetchUrlSpy = jest.spyOn(GoogleAds.prototype as any, 'fetchUrl');
+
+      const res = ads.validate(
+        '1',
+        GOOGLE_ADS_SELECTOR_TYPE.CAMPAIGN_ID,
+        GOOGLE_ADS_ACTION.SET_BUDGET,
+        false,
+        params
+      );
+
+      expect(fetchUrlSpy).not.toHaveBeenCalled();
+      expect(res).toEqual([]);
+    });
   });
 });